@@ -1,5 +1,8 @@
 'use strict'
 
+import { env } from './env'
+import { DVA, dva } from './main'
+
 export interface AssetsObject<T> {
   [key: string]: T
 }
@@ -11,6 +14,35 @@ export interface AssetsItem {
 
 export const assetList: AssetsItem[] = []
 
+// object URLs created while no visualization is active, i.e. for the preloaded images
+const pendingURLs: string[] = []
+
+/**
+ * This function creates an object URL for the given blob and keeps track of it in the active
+ * visualization, so it can be released with {@link revokeObjectURLs}.
+ * @ignore
+ */
+export function createObjectURL(blob: Blob): string {
+  const url = URL.createObjectURL(blob)
+  if (dva) {
+    dva.objectURLs.push(url)
+  } else {
+    pendingURLs.push(url)
+  }
+  return url
+}
+
+/**
+ * This function revokes the object URLs created for the given visualization. Without the visualization,
+ * it revokes the ones created while no visualization was active (i.e. for the preloaded images.)
+ * @ignore
+ */
+export function revokeObjectURLs(owner?: DVA): void {
+  const urls = owner ? owner.objectURLs : pendingURLs
+  for (const url of urls) URL.revokeObjectURL(url)
+  urls.length = 0
+}
+
 /**
  * The `Preloader` class is used to preload assets to the visualization.
  * This class works with the still images stored as 'svg', 'png' or 'jpg' files,
@@ -87,20 +119,24 @@ export class Preloader {
   }
 
   loadImg(id: string, src: string, callback: CallbackFunction) {
-    this.request(src, 'blob', (response) => {
-      const img = new Image()
-      img.src = URL.createObjectURL(response as Blob)
+    env.loadImage(src, (img) => {
       this.assets[id] = img
-      img.onload = callback
+      callback()
     })
   }
 
-  request(src: string, type: XMLHttpRequestResponseType, callback: RequestCallback) {
-    const xhrObj = new XMLHttpRequest()
-    xhrObj.onload = () => callback(xhrObj.response)
-    xhrObj.open('get', src, true)
-    xhrObj.responseType = type
-    xhrObj.send()
+  request(src: string, type: 'blob' | 'text', callback: RequestCallback) {
+    env.request(src, type, callback)
+  }
+
+  /**
+   * Removes all the loaded assets and callbacks.
+   */
+  reset() {
+    this.assets = {}
+    this.onProgress = () => {}
+    this.onComplete = () => {}
+    this.loadingProgress = 0
   }
 
   getResult(id: string): Blob | string | HTMLImageElement | null {
@@ -0,0 +1,326 @@
+'use strict'
+
+import { dva, restore, rotate, save, translate } from './main'
+import { line } from './drawing'
+import { color2rgba } from './colors'
+import { text, textAlign, textBaseline, textWidth, TextAlign, TextBaseline } from './typography'
+import { abs, cos, HALF_PI, sin } from './math'
+
+export type AxisOrientation = 'top' | 'right' | 'bottom' | 'left'
+
+/**
+ * Any scale which can be used with the {@link Axis}: {@link ContinuousScale}, {@link TimeScale},
+ * {@link BandScale}, {@link PointScale} or the function returned by the {@link ordinalScale}.
+ */
+export interface AxisScale<T> {
+  (v: T): number
+  ticks?(count?: number): T[]
+  domain?(): T[]
+  range?(): number[]
+  bandwidth?(): number
+  utc?: boolean
+}
+
+/**
+ * Options of the {@link Axis}.
+ */
+export interface AxisOptions<T> {
+  /**
+   * Approximate number of the ticks for the continuous and time scales (default `10`.)
+   */
+  ticks?: number
+  /**
+   * Explicit values of the ticks. They are required for the {@link ordinalScale},
+   * which is called with the indices.
+   */
+  tickValues?: T[]
+  /**
+   * Function formatting the tick labels.
+   */
+  format?: (v: T, i: number) => string
+  /**
+   * Length of the tick marks (default `6`.)
+   */
+  tickSize?: number
+  /**
+   * Space between the tick marks and the labels (default `3`.)
+   */
+  tickPadding?: number
+  /**
+   * Length of the gridlines drawn from the axis across the chart, i.e. the chart height
+   * for the bottom axis (default `0` - no gridlines.)
+   */
+  grid?: number
+  /**
+   * Color of the gridlines (default - the current stroke.)
+   */
+  gridColor?: string
+  /**
+   * Rotation of the labels in radians (default `0`.)
+   */
+  labelAngle?: number
+  /**
+   * If `true` (default), the labels overlapping the previous ones are not drawn.
+   */
+  avoidOverlap?: boolean
+  /**
+   * Title of the axis.
+   */
+  title?: string
+  /**
+   * Space between the labels and the title (default `6`.)
+   */
+  titlePadding?: number
+}
+
+/**
+ * The `Axis` class draws the axis of the chart from the scale: the domain line, the tick marks,
+ * the gridlines, the labels and the title. The lines are drawn with the current stroke,
+ * and the labels with the current fill and font.
+ * It is created with the {@link axisBottom}, {@link axisTop}, {@link axisLeft} or {@link axisRight} function.
+ * #### Usage example
+ *
+ * ```typescript
+ * const x = linearScale(0, 100, 40, width - 20).nice()
+ * const y = bandScale(['A', 'B', 'C'], height - 30, 20).paddingInner(0.2)
+ * const xAxis = axisBottom(x, { ticks: 5, grid: height - 50, title: 'Value [%]' })
+ * const yAxis = axisLeft(y)
+ *
+ * function draw() {
+ *     clear()
+ *     stroke('#666')
+ *     fill('#333')
+ *     xAxis.draw(height - 30)
+ *     yAxis.draw(40)
+ * }
+ * ```
+ */
+export class Axis<T> {
+  /**
+   * Position of the axis relative to the chart.
+   */
+  public orientation: AxisOrientation
+  /**
+   * Scale of the axis.
+   */
+  public scale: AxisScale<T>
+  /**
+   * Options of the axis. They can be changed at any time.
+   */
+  public options: AxisOptions<T>
+
+  /**
+   * @param orientation
+   * @param scale
+   * @param options
+   */
+  constructor(orientation: AxisOrientation, scale: AxisScale<T>, options: AxisOptions<T> = {}) {
+    this.orientation = orientation
+    this.scale = scale
+    this.options = options
+  }
+
+  /**
+   * Returns the values of the ticks.
+   */
+  tickValues(): T[] {
+    if (this.options.tickValues) return this.options.tickValues
+    if (this.scale.ticks) return this.scale.ticks(this.options.ticks ?? 10)
+    if (this.scale.domain) return this.scale.domain()
+    return []
+  }
+
+  /**
+   * Returns the formatted label of the tick.
+   * @param v Tick value.
+   * @param i Index of the tick.
+   * @param values Values of all the ticks, the dates are formatted according to them.
+   */
+  format(v: T, i: number, values: T[] = this.tickValues()): string {
+    if (this.options.format) return this.options.format(v, i)
+    return formatTick(v, values, this.scale.utc ?? false)
+  }
+
+  /**
+   * Draws the axis.
+   * @param position Y coordinate of the horizontal axis, or X coordinate of the vertical one.
+   */
+  draw(position: number): void {
+    if (!dva.ctx) return
+    const horizontal = this.orientation === 'top' || this.orientation === 'bottom'
+    // direction of the tick marks, the labels and the title
+    const k = this.orientation === 'top' || this.orientation === 'left' ? -1 : 1
+    const tickSize = this.options.tickSize ?? 6
+    const tickPadding = this.options.tickPadding ?? 3
+    const grid = this.options.grid ?? 0
+    const angle = this.options.labelAngle ?? 0
+    const offset = this.scale.bandwidth ? this.scale.bandwidth() / 2 : 0
+    const values = this.tickValues()
+    const ticks = values
+      .map((v, i) => ({ pos: this.scale(v) + offset, label: this.format(v, i, values) }))
+      .filter((t) => isFinite(t.pos))
+    const at = (along: number, across: number): [number, number] =>
+      horizontal ? [along, position + across * k] : [position + across * k, along]
+
+    save()
+    // domain line
+    const extent = this.scale.range ? this.scale.range() : ticks.map((t) => t.pos)
+    if (extent.length > 0) {
+      line(...at(Math.min(...extent), 0), ...at(Math.max(...extent), 0))
+    }
+    // gridlines and tick marks
+    if (grid !== 0) {
+      save()
+      // set on the context only, so the restore brings back the current stroke
+      if (this.options.gridColor) dva.ctx.strokeStyle = color2rgba(this.options.gridColor)
+      for (const t of ticks) line(...at(t.pos, 0), ...at(t.pos, -grid))
+      restore()
+    }
+    for (const t of ticks) line(...at(t.pos, 0), ...at(t.pos, tickSize))
+
+    // labels
+    const [align, baseline] = labelAlignment(this.orientation, angle)
+    const anchor = horizontal ? align : 'center'
+    textAlign(align)
+    textBaseline(baseline)
+    const h = dva.fontSize
+    let last = -Infinity
+    let depth = 0
+    const sorted = ticks.slice().sort((a, b) => a.pos - b.pos)
+    for (const t of sorted) {
+      const w = textWidth(t.label)
+      // size of the rotated label along and across the axis
+      const along = horizontal
+        ? abs(w * cos(angle)) + abs(h * sin(angle))
+        : abs(w * sin(angle)) + abs(h * cos(angle))
+      const across = horizontal
+        ? abs(w * sin(angle)) + abs(h * cos(angle))
+        : abs(w * cos(angle)) + abs(h * sin(angle))
+      const start =
+        anchor === 'left' ? t.pos : anchor === 'right' ? t.pos - along : t.pos - along / 2
+      if ((this.options.avoidOverlap ?? true) && start < last) continue
+      last = start + along + 2
+      depth = Math.max(depth, across)
+      const [x, y] = at(t.pos, tickSize + tickPadding)
+      if (angle === 0) {
+        text(t.label, x, y)
+      } else {
+        save()
+        translate(x, y)
+        rotate(angle)
+        text(t.label, 0, 0)
+        restore()
+      }
+    }
+
+    // title
+    if (this.options.title && extent.length > 0) {
+      const middle = (Math.min(...extent) + Math.max(...extent)) / 2
+      const [x, y] = at(middle, tickSize + tickPadding + depth + (this.options.titlePadding ?? 6))
+      textAlign('center')
+      // the vertical title is rotated, so its bottom faces the axis
+      textBaseline(horizontal && k > 0 ? 'top' : 'bottom')
+      save()
+      translate(x, y)
+      if (!horizontal) rotate(k * HALF_PI)
+      text(this.options.title, 0, 0)
+      restore()
+    }
+    restore()
+  }
+}
+
+function labelAlignment(orientation: AxisOrientation, angle: number): [TextAlign, TextBaseline] {
+  switch (orientation) {
+    case 'bottom':
+      return angle === 0 ? ['center', 'top'] : [angle > 0 ? 'left' : 'right', 'middle']
+    case 'top':
+      return angle === 0 ? ['center', 'bottom'] : [angle > 0 ? 'right' : 'left', 'middle']
+    case 'left':
+      return ['right', 'middle']
+    case 'right':
+      return ['left', 'middle']
+  }
+}
+
+/**
+ * @ignore
+ */
+export function formatTick(v: unknown, values: unknown[] = [], utc: boolean = false): string {
+  if (typeof v === 'number') {
+    // removes the floating point errors, i.e. 0.30000000000000004
+    return String(parseFloat(v.toPrecision(12)))
+  }
+  if (v instanceof Date) {
+    // [year, month, day, hours, minutes, seconds] in the calendar of the scale
+    const parts = (d: Date) =>
+      utc
+        ? [
+            d.getUTCFullYear(),
+            d.getUTCMonth() + 1,
+            d.getUTCDate(),
+            d.getUTCHours(),
+            d.getUTCMinutes(),
+            d.getUTCSeconds(),
+          ]
+        : [
+            d.getFullYear(),
+            d.getMonth() + 1,
+            d.getDate(),
+            d.getHours(),
+            d.getMinutes(),
+            d.getSeconds(),
+          ]
+    const dates = values.filter((d): d is Date => d instanceof Date).map(parts)
+    const [y, mo, day, h, mi, sec] = parts(v)
+    const pad = (n: number) => ('0' + n).slice(-2)
+    const date = `${y}-${pad(mo)}-${pad(day)}`
+    if (dates.some((d) => d[5] !== 0)) {
+      return `${pad(h)}:${pad(mi)}:${pad(sec)}`
+    } else if (dates.some((d) => d[3] !== 0 || d[4] !== 0)) {
+      return `${pad(h)}:${pad(mi)}`
+    } else if (dates.some((d) => d[2] !== 1)) {
+      return date
+    } else if (dates.some((d) => d[1] !== 1)) {
+      return date.slice(0, 7)
+    }
+    return String(y)
+  }
+  return String(v)
+}
+
+/**
+ * This function returns the horizontal axis with the ticks and labels below the axis line.
+ * @param scale
+ * @param options
+ */
+export function axisBottom<T>(scale: AxisScale<T>, options: AxisOptions<T> = {}): Axis<T> {
+  return new Axis('bottom', scale, options)
+}
+
+/**
+ * This function returns the horizontal axis with the ticks and labels above the axis line.
+ * @param scale
+ * @param options
+ */
+export function axisTop<T>(scale: AxisScale<T>, options: AxisOptions<T> = {}): Axis<T> {
+  return new Axis('top', scale, options)
+}
+
+/**
+ * This function returns the vertical axis with the ticks and labels on the left of the axis line.
+ * @param scale
+ * @param options
+ */
+export function axisLeft<T>(scale: AxisScale<T>, options: AxisOptions<T> = {}): Axis<T> {
+  return new Axis('left', scale, options)
+}
+
+/**
+ * This function returns the vertical axis with the ticks and labels on the right of the axis line.
+ * @param scale
+ * @param options
+ */
+export function axisRight<T>(scale: AxisScale<T>, options: AxisOptions<T> = {}): Axis<T> {
+  return new Axis('right', scale, options)
+}
@@ -0,0 +1,206 @@
+'use strict'
+
+import { animation, currentState, dva, withState } from './main'
+import { env } from './env'
+import { canvasToBytes, drawToCanvas } from './export'
+import { GIFEncoder } from './gif'
+
+/**
+ * Options of the {@link capturePNGSequence}, {@link captureGIF} and {@link captureWebM} functions.
+ */
+export interface CaptureOptions {
+  /**
+   * Number of the captured frames.
+   */
+  frames: number
+  /**
+   * Frame rate of the capture (default `30`.)
+   */
+  fps?: number
+  /**
+   * Time of the first frame in milliseconds (default `0`.) It sets {@link AnimationCtrl.time},
+   * and the running tweens continue from their current progress at this time.
+   */
+  startTime?: number
+  /**
+   * Width of the frame in CSS pixels, the visualization is laid out for it
+   * (default - the width of the canvas.)
+   */
+  width?: number
+  /**
+   * Height of the frame in CSS pixels, the visualization is laid out for it
+   * (default - the height of the canvas.)
+   */
+  height?: number
+  /**
+   * Number of the image pixels per CSS pixel (default `1`.)
+   */
+  pxRatio?: number
+  /**
+   * Color of the background (default - transparent for the PNG, white for the GIF and WebM.)
+   */
+  background?: number[] | string | number
+  /**
+   * Function drawing the frame (default - the `draw` function of the visualization.)
+   */
+  draw?: () => void
+}
+
+/**
+ * Options of the {@link captureGIF} function.
+ */
+export interface GIFCaptureOptions extends CaptureOptions {
+  /**
+   * Number of repetitions, `0` (default value) - forever, `-1` - played only once.
+   */
+  loop?: number
+}
+
+/**
+ * Options of the {@link captureWebM} function.
+ */
+export interface WebMCaptureOptions extends CaptureOptions {
+  /**
+   * Bitrate of the video in bits per second (default - chosen by the browser.)
+   */
+  bitrate?: number
+}
+
+function captureCanvas(options: CaptureOptions): [HTMLCanvasElement, number, number, number] {
+  if (!animation) throw new Error('dvalib: the animation is not available.')
+  const w = options.width ?? dva.width
+  const h = options.height ?? dva.height
+  const pxRatio = options.pxRatio ?? 1
+  const canvas = env.createCanvas(Math.round(w * pxRatio), Math.round(h * pxRatio))
+  return [canvas, w, h, pxRatio]
+}
+
+/**
+ * This function renders the frames of the animation deterministically (see {@link AnimationCtrl.capture})
+ * into the offscreen canvas of the given size and resolution, and calls the `callback` after each frame.
+ * The same canvas is reused for all the frames, so its content has to be read in the `callback`.
+ * @param options
+ * @param callback Function called with the canvas and the number of the frame.
+ */
+export function captureFrames(
+  options: CaptureOptions,
+  callback: (canvas: HTMLCanvasElement, frame: number) => void
+): void {
+  const [canvas, w, h, pxRatio] = captureCanvas(options)
+  const draw = options.draw ?? dva.draw
+  animation.capture(
+    options.frames,
+    options.fps ?? 30,
+    (frame) => {
+      drawToCanvas(canvas, w, h, pxRatio, draw, options.background)
+      callback(canvas, frame)
+    },
+    options.startTime
+  )
+}
+
+/**
+ * This function captures the frames of the animation as the PNG images.
+ *
+ * ```typescript
+ * capturePNGSequence({ frames: 90, fps: 30, pxRatio: 2 }).forEach((png, i) => {
+ *     download(png, `frame-${String(i).padStart(3, '0')}.png`)
+ * })
+ * ```
+ * @param options
+ */
+export function capturePNGSequence(options: CaptureOptions): Blob[] {
+  const images: Blob[] = []
+  captureFrames(options, (canvas) => {
+    const [bytes, type] = canvasToBytes(canvas, 'png')
+    images.push(new Blob([bytes], { type }))
+  })
+  return images
+}
+
+/**
+ * This function captures the frames of the animation as the animated GIF (see {@link GIFEncoder}.)
+ * GIF stores the duration of the frame in hundredths of a second, so the frame rates which
+ * divide 100 (i.e. 20, 25 or 50 fps) are played exactly.
+ *
+ * ```typescript
+ * download(captureGIF({ frames: 50, fps: 25, width: 480, height: 270 }), 'chart.gif')
+ * ```
+ * @param options
+ */
+export function captureGIF(options: GIFCaptureOptions): Blob {
+  const fps = options.fps ?? 30
+  let gif: GIFEncoder | null = null
+  captureFrames({ ...options, background: options.background ?? '#ffffff' }, (canvas) => {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    gif = gif ?? new GIFEncoder(canvas.width, canvas.height, options.loop ?? 0)
+    gif.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, 1000 / fps)
+  })
+  const bytes = gif ? (gif as GIFEncoder).finish() : new Uint8Array(0)
+  return new Blob([bytes], { type: 'image/gif' })
+}
+
+/**
+ * This function captures the frames of the animation as the WebM video, using the `MediaRecorder`
+ * of the browser. The frames are rendered deterministically, but the recorder works in the real time,
+ * so the capture takes the same time as the video. The returned promise is rejected if
+ * the `MediaRecorder` is not available.
+ *
+ * ```typescript
+ * captureWebM({ frames: 300, fps: 60, width: 1920, height: 1080 })
+ *     .then((video) => download(video, 'chart.webm'))
+ *     .catch(() => download(captureGIF({ frames: 100, fps: 20 }), 'chart.gif'))
+ * ```
+ * @param options
+ */
+export function captureWebM(options: WebMCaptureOptions): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined') {
+    return Promise.reject(new Error('dvalib: MediaRecorder is not available.'))
+  }
+  const [canvas, w, h, pxRatio] = captureCanvas(options)
+  const fps = options.fps ?? 30
+  const draw = options.draw ?? dva.draw
+  const background = options.background ?? '#ffffff'
+  const stream = canvas.captureStream(0)
+  const track = <CanvasCaptureMediaStreamTrack>stream.getVideoTracks()[0]
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((t) =>
+    MediaRecorder.isTypeSupported(t)
+  )
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.bitrate })
+  const chunks: Blob[] = []
+  // the frames are drawn later, in the timer callbacks, maybe with another instance active
+  const state = currentState()
+  const ctrl = state.animation
+
+  return new Promise((resolve, reject) => {
+    let frame = 0
+    const finish = () => {
+      ctrl.endCapture()
+      recorder.stop()
+    }
+    const next = () => {
+      try {
+        withState(state, () => {
+          if (frame > 0) ctrl.captureFrame()
+          drawToCanvas(canvas, w, h, pxRatio, draw, background)
+        })
+        track.requestFrame()
+      } catch (e) {
+        finish()
+        reject(e)
+        return
+      }
+      frame++
+      setTimeout(frame < options.frames ? next : finish, 1000 / fps)
+    }
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }))
+    recorder.start()
+    ctrl.beginCapture(fps, options.startTime)
+    if (options.frames > 0) next()
+    else finish()
+  })
+}
@@ -9,12 +9,13 @@ interface ColorRGB {
   r: number
   g: number
   b: number
+  a?: number
 }
 
 /**
  * This function converts color to the `rgba` string
  * @param c Color. It can be provided as an array with RGB values between 0 and 255,
- * hex string or single number for the gray color.
+ * hex string, `rgb()`/`rgba()` string or single number for the gray color.
  * @param alpha Transparency - value between 0 and 1
  */
 export function color2rgba(c: number[] | string | number, alpha: number = 1): string {
@@ -45,13 +46,15 @@ export function color2rgba(c: number[] | string | number, alpha: number = 1): st
       r = rgb.r
       g = rgb.g
       b = rgb.b
-      a = constrain(alpha, 0, 1)
+      a = constrain(alpha * (rgb.a ?? 1), 0, 1)
       break
     }
   }
   return `rgba(${r}, ${g}, ${b}, ${a})`
 }
 
+const rgbRgx: RegExp = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/
+
 function str2rgb(col: string): ColorRGB {
   const rgb: ColorRGB = {
     r: 0,
@@ -68,10 +71,33 @@ function str2rgb(col: string): ColorRGB {
     rgb.r = int(col.slice(1, 3), 16)
     rgb.g = int(col.slice(3, 5), 16)
     rgb.b = int(col.slice(5), 16)
+  } else {
+    const m = col.match(rgbRgx)
+    if (m) {
+      rgb.r = constrain(round(parseFloat(m[1])), 0, 255)
+      rgb.g = constrain(round(parseFloat(m[2])), 0, 255)
+      rgb.b = constrain(round(parseFloat(m[3])), 0, 255)
+      if (m[4] !== undefined) rgb.a = constrain(parseFloat(m[4]), 0, 1)
+    }
   }
   return rgb
 }
 
+/**
+ * This function converts color to the array `[r, g, b, a]`, with RGB values between 0 and 255
+ * and alpha between 0 and 1.
+ * @param c Color (see {@link color2rgba}.)
+ * @param alpha Transparency - value between 0 and 1
+ */
+export function color2array(c: number[] | string | number, alpha: number = 1): number[] {
+  const m = color2rgba(c, alpha).match(rgbRgx)
+  if (m) {
+    return [parseFloat(m[1]), parseFloat(m[2]), parseFloat(m[3]), parseFloat(m[4])]
+  } else {
+    return [0, 0, 0, 1]
+  }
+}
+
 /**
  * This function can be used to mix together two colors with given proportion.
  * @param color1
@@ -144,3 +170,242 @@ export function linearGradient(x0: number, y0: number, x1: number, y1: number):
     return new CanvasGradient()
   }
 }
+
+/**
+ * Function mapping the number between `0` and `1` to the color.
+ */
+export type ColorInterpolator = (t: number) => string
+
+/**
+ * This function returns the interpolator going through the given colors, which are evenly spaced
+ * between `0` and `1`. The result is the hex string, so it can be used directly with {@link fill}
+ * or {@link stroke}.
+ * @param colors An array of colors (see {@link color2rgba}.)
+ */
+export function interpolateColors(colors: (number[] | string | number)[]): ColorInterpolator {
+  const stops = colors.map((c) => color2array(c))
+  return (t: number) => {
+    if (stops.length === 0) return '#000000'
+    if (isNaN(t)) t = 0
+    const pos = constrain(t, 0, 1) * (stops.length - 1)
+    const i = Math.min(Math.floor(pos), stops.length - 2)
+    const c1 = stops[Math.max(i, 0)]
+    const c2 = stops[i + 1] ?? c1
+    const p = pos - Math.max(i, 0)
+    return (
+      '#' +
+      hexStr(round(c1[0] + (c2[0] - c1[0]) * p)) +
+      hexStr(round(c1[1] + (c2[1] - c1[1]) * p)) +
+      hexStr(round(c1[2] + (c2[2] - c1[2]) * p))
+    )
+  }
+}
+
+function hexColors(s: string): string[] {
+  // the palettes are stored as the concatenated hex codes
+  return (s.match(/.{6}/g) ?? []).map((c) => '#' + c)
+}
+
+function ramp(s: string): ColorInterpolator {
+  // the colors are parsed on the first use, because the palettes are created
+  // while the modules are still loading, and the helpers may not be available yet
+  let f: ColorInterpolator | null = null
+  return (t: number) => {
+    f = f ?? interpolateColors(hexColors(s))
+    return f(t)
+  }
+}
+
+/**
+ * Built-in continuous palettes. The sequential ones (`viridis` ... `greys`) go from the low
+ * to the high values, the diverging ones (`RdBu` ... `spectral`) have the neutral color
+ * in the middle. Viridis, magma, inferno, plasma and cividis are perceptually uniform,
+ * and the other ones come from the ColorBrewer.
+ */
+export const palettes = {
+  viridis: ramp('4401544828783e498931688e26828e1f9e8935b7796ece58b5de2bfde725'),
+  magma: ramp('000004180f3d440f76721f819e2f7fcd4071f1605dfd9668feca8dfcfdbf'),
+  inferno: ramp('0000041b0c414a0c6b781c6da52c60cf4446ed6925fb9b06f7d13dfcffa4'),
+  plasma: ramp('0d088746039f7201a89c179ebd3786d8576bed7953fb9f3afdca26f0f921'),
+  cividis: ramp('00224e1235703b496c575d6d7071738a8779a69d75c4b56ce4cf5bfee838'),
+  blues: ramp('f7fbffdeebf7c6dbef9ecae16baed64292c62171b508519c08306b'),
+  greens: ramp('f7fcf5e5f5e0c7e9c0a1d99b74c47641ab5d238b45006d2c00441b'),
+  reds: ramp('fff5f0fee0d2fcbba1fc9272fb6a4aef3b2ccb181da50f1567000d'),
+  oranges: ramp('fff5ebfee6cefdd0a2fdae6bfd8d3cf16913d94801a636037f2704'),
+  purples: ramp('fcfbfdefedf5dadaebbcbddc9e9ac8807dba6a51a354278f3f007d'),
+  greys: ramp('fffffff0f0f0d9d9d9bdbdbd969696737373525252252525000000'),
+  RdBu: ramp('67001fb2182bd6604df4a582fddbc7f7f7f7d1e5f092c5de4393c32166ac053061'),
+  RdYlBu: ramp('a50026d73027f46d43fdae61fee090ffffbfe0f3f8abd9e974add14575b4313695'),
+  BrBG: ramp('5430058c510abf812ddfc27df6e8c3f5f5f5c7eae580cdc135978f01665e003c30'),
+  PiYG: ramp('8e0152c51b7dde77aef1b6dafde0eff7f7f7e6f5d0b8e1867fbc414d9221276419'),
+  PuOr: ramp('7f3b08b35806e08214fdb863fee0b6f7f7f7d8daebb2abd28073ac5427882d004b'),
+  spectral: ramp('9e0142d53e4ff46d43fdae61fee08bffffbfe6f598abdda466c2a53288bd5e4fa2'),
+}
+
+export type PaletteName = keyof typeof palettes
+
+/**
+ * Built-in categorical palettes, safe for the most common types of the color blindness.
+ * `okabeIto` is the palette by Okabe and Ito, the other ones are by Paul Tol.
+ */
+export const categoricalPalettes = {
+  okabeIto: hexColors('e69f0056b4e9009e73f0e4420072b2d55e00cc79a7000000'),
+  tolBright: hexColors('4477aaee6677228833ccbb4466cceeaa3377bbbbbb'),
+  tolVibrant: hexColors('0077bb33bbee009988ee7733cc3311ee3377bbbbbb'),
+  tolMuted: hexColors('cc6677332288ddcc7711773388ccee88225544aa99999933aa4499'),
+}
+
+export type CategoricalPaletteName = keyof typeof categoricalPalettes
+
+/**
+ * This function returns `n` discrete colors from the palette. The continuous palettes are sampled
+ * evenly including both ends, the categorical ones are repeated if they have less than `n` colors.
+ *
+ * ```typescript
+ * const colors = samplePalette('viridis', 5)
+ * const c = quantizeScale(0, 100, colors)
+ * ```
+ * @param palette Name of the palette, interpolator or an array of colors.
+ * @param n Number of colors.
+ */
+export function samplePalette(
+  palette: PaletteName | CategoricalPaletteName | ColorInterpolator | string[],
+  n: number
+): string[] {
+  const result: string[] = []
+  let colors: string[] | null = null
+  let interpolator: ColorInterpolator | null = null
+  if (Array.isArray(palette)) {
+    colors = palette
+  } else if (typeof palette === 'function') {
+    interpolator = palette
+  } else if (palette in categoricalPalettes) {
+    colors = categoricalPalettes[palette as CategoricalPaletteName]
+  } else {
+    interpolator = palettes[palette as PaletteName]
+  }
+  for (let i = 0; i < n; i++) {
+    if (colors) {
+      result.push(colors[i % colors.length])
+    } else if (interpolator) {
+      result.push(interpolator(n > 1 ? i / (n - 1) : 0.5))
+    }
+  }
+  return result
+}
+
+/**
+ * Scale object returned by {@link sequentialColorScale} and {@link divergingColorScale}.
+ * It maps the numbers to the colors, which can be used directly with {@link fill} or {@link stroke}.
+ */
+export interface ColorScale {
+  /**
+   * Returns the color of the value. The values outside the domain get the colors of its ends,
+   * and `NaN` gets the transparent color.
+   */
+  (v: number): string
+  /**
+   * Returns the domain.
+   */
+  domain(): number[]
+  /**
+   * Sets the domain - `[min, max]` for the sequential scale, `[min, mid, max]` for the diverging one.
+   * @param d
+   */
+  domain(d: number[]): this
+  /**
+   * Returns the interpolator.
+   */
+  interpolator(): ColorInterpolator
+  /**
+   * Sets the interpolator or the name of the built-in palette.
+   * @param i
+   */
+  interpolator(i: PaletteName | ColorInterpolator): this
+  /**
+   * Returns `n` colors evenly covering the domain, i.e. for the legend.
+   * @param n
+   */
+  sample(n: number): string[]
+  /**
+   * Returns an independent copy of the scale.
+   */
+  copy(): this
+}
+
+function colorScale(domain: number[], interpolator: PaletteName | ColorInterpolator): ColorScale {
+  let d = domain.slice()
+  let f = typeof interpolator === 'function' ? interpolator : palettes[interpolator]
+
+  const position = (v: number): number => {
+    if (d.length > 2) {
+      const [min, mid, max] = d
+      const lower = mid === min ? 0.5 : (0.5 * (v - min)) / (mid - min)
+      const upper = max === mid ? 0.5 : 0.5 + (0.5 * (v - mid)) / (max - mid)
+      return (v - mid) * (max - min) < 0 ? lower : upper
+    }
+    return d[1] === d[0] ? 0.5 : (v - d[0]) / (d[1] - d[0])
+  }
+
+  const scale = ((v: number): string => {
+    if (isNaN(v)) return 'rgba(0, 0, 0, 0)'
+    return f(constrain(position(v), 0, 1))
+  }) as ColorScale
+
+  scale.domain = ((value?: number[]) => {
+    if (value === undefined) return d.slice()
+    d = value.slice()
+    return scale
+  }) as ColorScale['domain']
+
+  scale.interpolator = ((value?: PaletteName | ColorInterpolator) => {
+    if (value === undefined) return f
+    f = typeof value === 'function' ? value : palettes[value]
+    return scale
+  }) as ColorScale['interpolator']
+
+  scale.sample = (n: number) => samplePalette(f, n)
+
+  scale.copy = () => colorScale(d, f)
+
+  return scale
+}
+
+/**
+ * This function returns a scale, which maps the numbers from the domain to the colors of the palette.
+ *
+ * ```typescript
+ * const c = sequentialColorScale([0, 40], 'viridis')
+ * for (const cell of cells) {
+ *     fill(c(cell.value))
+ *     rect(cell.x, cell.y, 10, 10)
+ * }
+ * ```
+ * @param domain Minimum and maximum of the data `[min, max]`.
+ * @param interpolator Name of the built-in palette (see {@link palettes}) or interpolator
+ * (default `'viridis'`.)
+ */
+export function sequentialColorScale(
+  domain: [number, number],
+  interpolator: PaletteName | ColorInterpolator = 'viridis'
+): ColorScale {
+  return colorScale(domain, interpolator)
+}
+
+/**
+ * This function returns a scale, which maps the values below the `mid` to the first half
+ * of the palette, and the values above it to the second half, i.e. for the deviations from the average.
+ * @param min Minimum of the data.
+ * @param mid Value mapped to the middle of the palette.
+ * @param max Maximum of the data.
+ * @param interpolator Name of the built-in palette (see {@link palettes}) or interpolator
+ * (default `'RdBu'`.)
+ */
+export function divergingColorScale(
+  min: number,
+  mid: number,
+  max: number,
+  interpolator: PaletteName | ColorInterpolator = 'RdBu'
+): ColorScale {
+  return colorScale([min, mid, max], interpolator)
+}
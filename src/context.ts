@@ -0,0 +1,317 @@
+'use strict'
+
+/**
+ * @ignore
+ */
+export type Matrix = [number, number, number, number, number, number]
+
+/**
+ * State of the {@link VirtualContext}, which is saved and restored with `save()` and `restore()`.
+ */
+export interface ContextState {
+  transform: Matrix
+  fillStyle: string | VirtualGradient
+  strokeStyle: string | VirtualGradient
+  lineWidth: number
+  lineCap: CanvasLineCap
+  lineJoin: CanvasLineJoin
+  miterLimit: number
+  lineDash: number[]
+  lineDashOffset: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  globalAlpha: number
+  shadowColor: string
+  shadowBlur: number
+  shadowOffsetX: number
+  shadowOffsetY: number
+}
+
+/**
+ * Gradient created by the {@link VirtualContext}.
+ */
+export class VirtualGradient {
+  /**
+   * Type of the gradient.
+   */
+  public type: 'linear' | 'radial'
+  /**
+   * Coordinates: `[x0, y0, x1, y1]` for the linear gradient, `[x0, y0, r0, x1, y1, r1]` for the radial one.
+   */
+  public coords: number[]
+  /**
+   * Color stops `[offset, color]`.
+   */
+  public stops: [number, string][]
+
+  /**
+   * @param type
+   * @param coords
+   */
+  constructor(type: 'linear' | 'radial', coords: number[]) {
+    this.type = type
+    this.coords = coords
+    this.stops = []
+  }
+
+  /**
+   * Adds the color stop to the gradient.
+   * @param offset Position between `0` and `1`.
+   * @param color
+   */
+  addColorStop(offset: number, color: string): void {
+    this.stops.push([offset, color])
+  }
+}
+
+/**
+ * @ignore
+ */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+/**
+ * The `VirtualContext` class is the base of the render targets, which are not the canvas:
+ * {@link SVGContext} and {@link RecordingContext}. It keeps the state of the context
+ * (styles and transformation) the same way as the `CanvasRenderingContext2D`.
+ */
+export class VirtualContext {
+  /**
+   * Width of the image.
+   */
+  public width: number
+  /**
+   * Height of the image.
+   */
+  public height: number
+  protected _state: ContextState
+  protected _stack: ContextState[]
+
+  /**
+   * @param width Width of the image.
+   * @param height Height of the image.
+   */
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this._state = {
+      transform: [1, 0, 0, 1, 0, 0],
+      fillStyle: '#000000',
+      strokeStyle: '#000000',
+      lineWidth: 1,
+      lineCap: 'butt',
+      lineJoin: 'miter',
+      miterLimit: 10,
+      lineDash: [],
+      lineDashOffset: 0,
+      font: '10px sans-serif',
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      globalAlpha: 1,
+      shadowColor: 'rgba(0, 0, 0, 0)',
+      shadowBlur: 0,
+      shadowOffsetX: 0,
+      shadowOffsetY: 0,
+    }
+    this._stack = []
+  }
+
+  /**
+   * Returns this object typed as the canvas 2D context, so it can be used with {@link renderTo}.
+   */
+  get context(): CanvasRenderingContext2D {
+    return <CanvasRenderingContext2D>(<unknown>this)
+  }
+
+  /* state */
+
+  get fillStyle(): string | VirtualGradient {
+    return this._state.fillStyle
+  }
+  set fillStyle(v: string | VirtualGradient) {
+    this._state.fillStyle = v
+  }
+  get strokeStyle(): string | VirtualGradient {
+    return this._state.strokeStyle
+  }
+  set strokeStyle(v: string | VirtualGradient) {
+    this._state.strokeStyle = v
+  }
+  get lineWidth(): number {
+    return this._state.lineWidth
+  }
+  set lineWidth(v: number) {
+    this._state.lineWidth = v
+  }
+  get lineCap(): CanvasLineCap {
+    return this._state.lineCap
+  }
+  set lineCap(v: CanvasLineCap) {
+    this._state.lineCap = v
+  }
+  get lineJoin(): CanvasLineJoin {
+    return this._state.lineJoin
+  }
+  set lineJoin(v: CanvasLineJoin) {
+    this._state.lineJoin = v
+  }
+  get miterLimit(): number {
+    return this._state.miterLimit
+  }
+  set miterLimit(v: number) {
+    this._state.miterLimit = v
+  }
+  get lineDashOffset(): number {
+    return this._state.lineDashOffset
+  }
+  set lineDashOffset(v: number) {
+    this._state.lineDashOffset = v
+  }
+  get font(): string {
+    return this._state.font
+  }
+  set font(v: string) {
+    this._state.font = v
+  }
+  get textAlign(): CanvasTextAlign {
+    return this._state.textAlign
+  }
+  set textAlign(v: CanvasTextAlign) {
+    this._state.textAlign = v
+  }
+  get textBaseline(): CanvasTextBaseline {
+    return this._state.textBaseline
+  }
+  set textBaseline(v: CanvasTextBaseline) {
+    this._state.textBaseline = v
+  }
+  get globalAlpha(): number {
+    return this._state.globalAlpha
+  }
+  set globalAlpha(v: number) {
+    this._state.globalAlpha = v
+  }
+  get shadowColor(): string {
+    return this._state.shadowColor
+  }
+  set shadowColor(v: string) {
+    this._state.shadowColor = v
+  }
+  get shadowBlur(): number {
+    return this._state.shadowBlur
+  }
+  set shadowBlur(v: number) {
+    this._state.shadowBlur = v
+  }
+  get shadowOffsetX(): number {
+    return this._state.shadowOffsetX
+  }
+  set shadowOffsetX(v: number) {
+    this._state.shadowOffsetX = v
+  }
+  get shadowOffsetY(): number {
+    return this._state.shadowOffsetY
+  }
+  set shadowOffsetY(v: number) {
+    this._state.shadowOffsetY = v
+  }
+
+  setLineDash(segments: number[]): void {
+    this._state.lineDash = segments.slice()
+  }
+
+  getLineDash(): number[] {
+    return this._state.lineDash.slice()
+  }
+
+  save(): void {
+    this._stack.push({
+      ...this._state,
+      transform: [...this._state.transform] as Matrix,
+      lineDash: this._state.lineDash.slice(),
+    })
+  }
+
+  restore(): void {
+    const s = this._stack.pop()
+    if (s) this._state = s
+  }
+
+  /* transformations */
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this._state.transform = multiply(this._state.transform, [a, b, c, d, e, f])
+  }
+
+  setTransform(a: number | DOMMatrix2DInit, b = 0, c = 0, d = 1, e = 0, f = 0): void {
+    if (typeof a === 'object') {
+      this._state.transform = [a.a ?? 1, a.b ?? 0, a.c ?? 0, a.d ?? 1, a.e ?? 0, a.f ?? 0]
+    } else {
+      this._state.transform = [a, b, c, d, e, f]
+    }
+  }
+
+  resetTransform(): void {
+    this._state.transform = [1, 0, 0, 1, 0, 0]
+  }
+
+  getTransform(): DOMMatrix {
+    const [a, b, c, d, e, f] = this._state.transform
+    return <DOMMatrix>(<unknown>{ a, b, c, d, e, f })
+  }
+
+  translate(x: number, y: number): void {
+    this._state.transform = multiply(this._state.transform, [1, 0, 0, 1, x, y])
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    this._state.transform = multiply(this._state.transform, [cos, sin, -sin, cos, 0, 0])
+  }
+
+  scale(x: number, y: number): void {
+    this._state.transform = multiply(this._state.transform, [x, 0, 0, y, 0, 0])
+  }
+
+  protected _point(x: number, y: number): [number, number] {
+    const m = this._state.transform
+    return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): VirtualGradient {
+    return new VirtualGradient('linear', [x0, y0, x1, y1])
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): VirtualGradient {
+    return new VirtualGradient('radial', [x0, y0, r0, x1, y1, r1])
+  }
+
+  measureText(text: string): TextMetrics {
+    // rough estimate, the same everywhere
+    const size = parseFloat((this._state.font.match(/([\d.]+)px/) ?? ['', '10'])[1])
+    return <TextMetrics>{
+      width: text.length * size * 0.6,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: text.length * size * 0.6,
+      actualBoundingBoxAscent: size * 0.8,
+      actualBoundingBoxDescent: size * 0.2,
+    }
+  }
+}
@@ -170,10 +170,11 @@ export function point(x: number, y: number): void {
  */
 export function line(x1: number, y1: number, x2: number, y2: number): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.moveTo(x1, y1)
-    dva.ctx.lineTo(x2, y2)
+    dva.beginPath()
+    dva.path.moveTo(x1, y1)
+    dva.path.lineTo(x2, y2)
     dva.ctx.stroke()
+    dva.registerHit(false, true)
   }
 }
 
@@ -187,8 +188,8 @@ export function line(x1: number, y1: number, x2: number, y2: number): void {
  */
 export function arc(x: number, y: number, r: number, startAngle: number, endAngle: number): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.arc(x, y, r, startAngle, endAngle)
+    dva.beginPath()
+    dva.path.arc(x, y, r, startAngle, endAngle)
     dva.commitShape()
   }
 }
@@ -201,8 +202,8 @@ export function arc(x: number, y: number, r: number, startAngle: number, endAngl
  */
 export function circle(x: number, y: number, r: number): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.arc(x, y, r, 0, PI * 2)
+    dva.beginPath()
+    dva.path.arc(x, y, r, 0, PI * 2)
     dva.commitShape()
   }
 }
@@ -220,14 +221,14 @@ export function ellipse(x: number, y: number, r1: number, r2: number, angle: num
     save()
     translate(x, y)
     rotate(angle)
-    dva.ctx.beginPath()
+    dva.beginPath()
     for (let i = 0; i < TWO_PI; i += 0.01) {
       const xPos = r1 * cos(i)
       const yPos = r2 * sin(i)
       if (i === 0) {
-        dva.ctx.moveTo(xPos, yPos)
+        dva.path.moveTo(xPos, yPos)
       } else {
-        dva.ctx.lineTo(xPos, yPos)
+        dva.path.lineTo(xPos, yPos)
       }
     }
     dva.commitShape()
@@ -256,10 +257,11 @@ export function ring(
     const ro = Math.max(r1, r2)
     const ri = Math.min(r1, r2)
     if (startAngle === 0 && endAngle === TWO_PI) {
-      dva.ctx.beginPath()
-      dva.ctx.arc(x, y, ro, startAngle, endAngle)
-      dva.ctx.arc(x, y, ri, endAngle, startAngle, true)
+      dva.beginPath()
+      dva.path.arc(x, y, ro, startAngle, endAngle)
+      dva.path.arc(x, y, ri, endAngle, startAngle, true)
       if (dva.withFill) dva.ctx.fill()
+      dva.registerHit()
       if (dva.withStroke) {
         dva.ctx.beginPath()
         dva.ctx.arc(x, y, ro, startAngle, endAngle)
@@ -269,10 +271,10 @@ export function ring(
         dva.ctx.stroke()
       }
     } else {
-      dva.ctx.beginPath()
-      dva.ctx.arc(x, y, ro, startAngle, endAngle)
-      dva.ctx.arc(x, y, ri, endAngle, startAngle, true)
-      dva.ctx.closePath()
+      dva.beginPath()
+      dva.path.arc(x, y, ro, startAngle, endAngle)
+      dva.path.arc(x, y, ri, endAngle, startAngle, true)
+      dva.path.closePath()
       dva.commitShape()
     }
   }
@@ -288,16 +290,16 @@ export function ring(
  */
 export function rect(x: number, y: number, w: number, h: number, r: number = 0): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.moveTo(x + r, y)
-    dva.ctx.lineTo(x + w - r, y)
-    dva.ctx.arcTo(x + w, y, x + w, y + r, r)
-    dva.ctx.lineTo(x + w, y + h - r)
-    dva.ctx.arcTo(x + w, y + h, x + w - r, y + h, r)
-    dva.ctx.lineTo(x + r, y + h)
-    dva.ctx.arcTo(x, y + h, x, y + h - r, r)
-    dva.ctx.lineTo(x, y + r)
-    dva.ctx.arcTo(x, y, x + r, y, r)
+    dva.beginPath()
+    dva.path.moveTo(x + r, y)
+    dva.path.lineTo(x + w - r, y)
+    dva.path.arcTo(x + w, y, x + w, y + r, r)
+    dva.path.lineTo(x + w, y + h - r)
+    dva.path.arcTo(x + w, y + h, x + w - r, y + h, r)
+    dva.path.lineTo(x + r, y + h)
+    dva.path.arcTo(x, y + h, x, y + h - r, r)
+    dva.path.lineTo(x, y + r)
+    dva.path.arcTo(x, y, x + r, y, r)
     dva.commitShape()
   }
 }
@@ -314,16 +316,16 @@ export function star(x: number, y: number, r1: number, r2: number, n: number = 5
   if (dva.ctx) {
     const angle = TWO_PI / n
     const halfAngle = angle / 2
-    dva.ctx.beginPath()
+    dva.beginPath()
     for (let a = 0; a < TWO_PI; a += angle) {
       let sx = x + cos(a - HALF_PI) * r2
       let sy = y + sin(a - HALF_PI) * r2
-      dva.ctx.lineTo(sx, sy)
+      dva.path.lineTo(sx, sy)
       sx = x + cos(a - HALF_PI + halfAngle) * r1
       sy = y + sin(a - HALF_PI + halfAngle) * r1
-      dva.ctx.lineTo(sx, sy)
+      dva.path.lineTo(sx, sy)
     }
-    dva.ctx.closePath()
+    dva.path.closePath()
     dva.commitShape()
   }
 }
@@ -338,13 +340,13 @@ export function star(x: number, y: number, r1: number, r2: number, n: number = 5
 export function polygon(x: number, y: number, r: number, n: number = 5): void {
   if (dva.ctx) {
     const angle = TWO_PI / n
-    dva.ctx.beginPath()
+    dva.beginPath()
     for (let a = 0; a < TWO_PI; a += angle) {
       const sx = x + cos(a - HALF_PI) * r
       const sy = y + sin(a - HALF_PI) * r
-      dva.ctx.lineTo(sx, sy)
+      dva.path.lineTo(sx, sy)
     }
-    dva.ctx.closePath()
+    dva.path.closePath()
     dva.commitShape()
   }
 }
@@ -356,11 +358,11 @@ export function polygon(x: number, y: number, r: number, n: number = 5): void {
  */
 export function polyline(pts: number[], closed: boolean = false): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
+    dva.beginPath()
     for (let i = 0; i < pts.length; i += 2) {
-      dva.ctx.lineTo(pts[i], pts[i + 1])
+      dva.path.lineTo(pts[i], pts[i + 1])
     }
-    if (closed) dva.ctx.closePath()
+    if (closed) dva.path.closePath()
     dva.commitShape()
   }
 }
@@ -371,15 +373,15 @@ export function polyline(pts: number[], closed: boolean = false): void {
  */
 export function spline(pts: number[]): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.moveTo(pts[0], pts[1])
+    dva.beginPath()
+    dva.path.moveTo(pts[0], pts[1])
     for (let i = 0; i < pts.length - 2; i += 2) {
       const mx = (pts[i] + pts[i + 2]) / 2
       const my = (pts[i + 1] + pts[i + 3]) / 2
       const cp1 = (mx + pts[i]) / 2
       const cp2 = (mx + pts[i + 2]) / 2
-      dva.ctx.quadraticCurveTo(cp1, pts[i + 1], mx, my)
-      dva.ctx.quadraticCurveTo(cp2, pts[i + 3], pts[i + 2], pts[i + 3])
+      dva.path.quadraticCurveTo(cp1, pts[i + 1], mx, my)
+      dva.path.quadraticCurveTo(cp2, pts[i + 3], pts[i + 2], pts[i + 3])
     }
     dva.commitShape()
   }
@@ -407,10 +409,11 @@ export function bezier(
   y2: number
 ): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.moveTo(x1, y1)
-    dva.ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x2, y2)
+    dva.beginPath()
+    dva.path.moveTo(x1, y1)
+    dva.path.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x2, y2)
     dva.ctx.stroke()
+    dva.registerHit(false, true)
   }
 }
 
@@ -424,8 +427,8 @@ export function bezier(
  */
 export function beginPath(x: number, y: number): void {
   if (dva.ctx) {
-    dva.ctx.beginPath()
-    dva.ctx.moveTo(x, y)
+    dva.beginPath()
+    dva.path.moveTo(x, y)
   }
 }
 
@@ -441,7 +444,7 @@ export function endPath(): void {
  */
 export function closePath(): void {
   if (dva.ctx) {
-    dva.ctx.closePath()
+    dva.path.closePath()
     dva.commitShape()
   }
 }
@@ -452,7 +455,7 @@ export function closePath(): void {
  * @param y Y coordinate of the destination point.
  */
 export function moveTo(x: number, y: number): void {
-  if (dva.ctx) dva.ctx.moveTo(x, y)
+  if (dva.ctx) dva.path.moveTo(x, y)
 }
 
 /**
@@ -461,7 +464,7 @@ export function moveTo(x: number, y: number): void {
  * @param y Y coordinate of the line end point.
  */
 export function lineTo(x: number, y: number): void {
-  if (dva.ctx) dva.ctx.lineTo(x, y)
+  if (dva.ctx) dva.path.lineTo(x, y)
 }
 
 /**
@@ -483,7 +486,7 @@ export function bezierTo(
   x: number,
   y: number
 ): void {
-  if (dva.ctx) dva.ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y)
+  if (dva.ctx) dva.path.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y)
 }
 
 /**
@@ -495,7 +498,7 @@ export function bezierTo(
  * @param y Y coordinate of the curve end point.
  */
 export function quadraticTo(cpx: number, cpy: number, x: number, y: number): void {
-  if (dva.ctx) dva.ctx.quadraticCurveTo(cpx, cpy, x, y)
+  if (dva.ctx) dva.path.quadraticCurveTo(cpx, cpy, x, y)
 }
 
 export type ImgOrigin =
@@ -0,0 +1,290 @@
+'use strict'
+
+import { cos, HALF_PI, PI, pow, sin, sqrt, TWO_PI } from './math'
+
+/**
+ * Easing function maps the linear progress `t` (between `0` and `1`) to the eased progress.
+ */
+export type EasingFunction = (t: number) => number
+
+/**
+ * This function is the linear easing, the progress is not changed.
+ */
+export function linear(t: number): number {
+  return t
+}
+
+/**
+ * This function is the quadratic easing, which starts slowly and accelerates.
+ */
+export function easeInQuad(t: number): number {
+  return t * t
+}
+
+/**
+ * This function is the quadratic easing, which starts fast and decelerates.
+ */
+export function easeOutQuad(t: number): number {
+  return t * (2 - t)
+}
+
+/**
+ * This function is the quadratic easing, which accelerates until the half and then decelerates.
+ */
+export function easeInOutQuad(t: number): number {
+  return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t
+}
+
+/**
+ * This function is the cubic easing, which starts slowly and accelerates.
+ */
+export function easeInCubic(t: number): number {
+  return t * t * t
+}
+
+/**
+ * This function is the cubic easing, which starts fast and decelerates.
+ */
+export function easeOutCubic(t: number): number {
+  return pow(t - 1, 3) + 1
+}
+
+/**
+ * This function is the cubic easing, which accelerates until the half and then decelerates.
+ */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : pow(2 * t - 2, 3) / 2 + 1
+}
+
+/**
+ * This function is the sinusoidal easing, which starts slowly and accelerates.
+ */
+export function easeInSine(t: number): number {
+  return 1 - cos(t * HALF_PI)
+}
+
+/**
+ * This function is the sinusoidal easing, which starts fast and decelerates.
+ */
+export function easeOutSine(t: number): number {
+  return sin(t * HALF_PI)
+}
+
+/**
+ * This function is the sinusoidal easing, which accelerates until the half and then decelerates.
+ */
+export function easeInOutSine(t: number): number {
+  return -(cos(PI * t) - 1) / 2
+}
+
+/**
+ * This function is the exponential easing, which starts slowly and accelerates.
+ */
+export function easeInExpo(t: number): number {
+  return t === 0 ? 0 : pow(2, 10 * t - 10)
+}
+
+/**
+ * This function is the exponential easing, which starts fast and decelerates.
+ */
+export function easeOutExpo(t: number): number {
+  return t === 1 ? 1 : 1 - pow(2, -10 * t)
+}
+
+/**
+ * This function is the exponential easing, which accelerates until the half and then decelerates.
+ */
+export function easeInOutExpo(t: number): number {
+  if (t === 0 || t === 1) return t
+  return t < 0.5 ? pow(2, 20 * t - 10) / 2 : (2 - pow(2, -20 * t + 10)) / 2
+}
+
+/**
+ * This function is the circular easing, which starts slowly and accelerates.
+ */
+export function easeInCirc(t: number): number {
+  return 1 - sqrt(1 - t * t)
+}
+
+/**
+ * This function is the circular easing, which starts fast and decelerates.
+ */
+export function easeOutCirc(t: number): number {
+  return sqrt(1 - pow(t - 1, 2))
+}
+
+/**
+ * This function is the circular easing, which accelerates until the half and then decelerates.
+ */
+export function easeInOutCirc(t: number): number {
+  return t < 0.5 ? (1 - sqrt(1 - pow(2 * t, 2))) / 2 : (sqrt(1 - pow(-2 * t + 2, 2)) + 1) / 2
+}
+
+const BACK = 1.70158
+
+/**
+ * This function is the easing which moves slightly back before it accelerates to the end.
+ */
+export function easeInBack(t: number): number {
+  return (BACK + 1) * t * t * t - BACK * t * t
+}
+
+/**
+ * This function is the easing which overshoots the end and returns back.
+ */
+export function easeOutBack(t: number): number {
+  return 1 + (BACK + 1) * pow(t - 1, 3) + BACK * pow(t - 1, 2)
+}
+
+/**
+ * This function is the easing which moves slightly back at the start, and overshoots the end.
+ */
+export function easeInOutBack(t: number): number {
+  const c = BACK * 1.525
+  return t < 0.5
+    ? (pow(2 * t, 2) * ((c + 1) * 2 * t - c)) / 2
+    : (pow(2 * t - 2, 2) * ((c + 1) * (t * 2 - 2) + c) + 2) / 2
+}
+
+/**
+ * This function is the easing which oscillates with the growing amplitude, like a stretched spring.
+ */
+export function easeInElastic(t: number): number {
+  if (t === 0 || t === 1) return t
+  return -pow(2, 10 * t - 10) * sin((t * 10 - 10.75) * (TWO_PI / 3))
+}
+
+/**
+ * This function is the easing which oscillates around the end, like a released spring.
+ */
+export function easeOutElastic(t: number): number {
+  if (t === 0 || t === 1) return t
+  return pow(2, -10 * t) * sin((t * 10 - 0.75) * (TWO_PI / 3)) + 1
+}
+
+/**
+ * This function is the easing which oscillates both at the start and at the end.
+ */
+export function easeInOutElastic(t: number): number {
+  if (t === 0 || t === 1) return t
+  const c = TWO_PI / 4.5
+  return t < 0.5
+    ? -(pow(2, 20 * t - 10) * sin((20 * t - 11.125) * c)) / 2
+    : (pow(2, -20 * t + 10) * sin((20 * t - 11.125) * c)) / 2 + 1
+}
+
+/**
+ * This function is the easing which bounces at the end, like a dropped ball.
+ */
+export function easeOutBounce(t: number): number {
+  const n = 7.5625
+  const d = 2.75
+  if (t < 1 / d) {
+    return n * t * t
+  } else if (t < 2 / d) {
+    return n * (t -= 1.5 / d) * t + 0.75
+  } else if (t < 2.5 / d) {
+    return n * (t -= 2.25 / d) * t + 0.9375
+  } else {
+    return n * (t -= 2.625 / d) * t + 0.984375
+  }
+}
+
+/**
+ * This function is the easing which bounces at the start, and then accelerates to the end.
+ */
+export function easeInBounce(t: number): number {
+  return 1 - easeOutBounce(1 - t)
+}
+
+/**
+ * This function is the easing which bounces both at the start and at the end.
+ */
+export function easeInOutBounce(t: number): number {
+  return t < 0.5 ? (1 - easeOutBounce(1 - 2 * t)) / 2 : (1 + easeOutBounce(2 * t - 1)) / 2
+}
+
+/**
+ * This function returns the easing function defined by the cubic Bézier curve
+ * from `(0, 0)` to `(1, 1)` with the control points `(x1, y1)` and `(x2, y2)`,
+ * the same way as the CSS `cubic-bezier()` timing function.
+ *
+ * ```typescript
+ * const ease = cubicBezier(0.25, 0.1, 0.25, 1)
+ * ```
+ * @param x1 X coordinate of the first control point (between `0` and `1`.)
+ * @param y1 Y coordinate of the first control point.
+ * @param x2 X coordinate of the second control point (between `0` and `1`.)
+ * @param y2 Y coordinate of the second control point.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const cx = 3 * x1
+  const bx = 3 * (x2 - x1) - cx
+  const ax = 1 - cx - bx
+  const cy = 3 * y1
+  const by = 3 * (y2 - y1) - cy
+  const ay = 1 - cy - by
+  const curveX = (s: number) => ((ax * s + bx) * s + cx) * s
+  const curveY = (s: number) => ((ay * s + by) * s + cy) * s
+  const slopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx
+  return (t: number): number => {
+    if (t <= 0 || t >= 1) return t
+    // Newton's method first, bisection if it does not converge
+    let s = t
+    for (let i = 0; i < 8; i++) {
+      const err = curveX(s) - t
+      if (Math.abs(err) < 1e-6) return curveY(s)
+      const d = slopeX(s)
+      if (Math.abs(d) < 1e-6) break
+      s -= err / d
+    }
+    let lo = 0
+    let hi = 1
+    s = t
+    while (hi - lo > 1e-6) {
+      if (curveX(s) < t) {
+        lo = s
+      } else {
+        hi = s
+      }
+      s = (lo + hi) / 2
+    }
+    return curveY(s)
+  }
+}
+
+/**
+ * All the predefined easing functions by name.
+ */
+export const easings = {
+  linear,
+  easeInQuad,
+  easeOutQuad,
+  easeInOutQuad,
+  easeInCubic,
+  easeOutCubic,
+  easeInOutCubic,
+  easeInSine,
+  easeOutSine,
+  easeInOutSine,
+  easeInExpo,
+  easeOutExpo,
+  easeInOutExpo,
+  easeInCirc,
+  easeOutCirc,
+  easeInOutCirc,
+  easeInBack,
+  easeOutBack,
+  easeInOutBack,
+  easeInElastic,
+  easeOutElastic,
+  easeInOutElastic,
+  easeInBounce,
+  easeOutBounce,
+  easeInOutBounce,
+}
+
+/**
+ * Name of the predefined easing function (see {@link easings}.)
+ */
+export type EasingName = keyof typeof easings
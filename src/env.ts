@@ -0,0 +1,118 @@
+'use strict'
+
+import { createObjectURL } from './assets'
+
+/**
+ * The `Environment` interface describes everything the library needs from the browser,
+ * apart from the canvas 2D context itself. By default, the browser APIs are used,
+ * but any of the functions can be replaced with {@link setEnvironment}, i.e. to render
+ * the charts in Node.js with the `canvas` package (see {@link headlessCanvas}.)
+ */
+export interface Environment {
+  /**
+   * Creates a new canvas of the given size in pixels.
+   */
+  createCanvas(width: number, height: number): HTMLCanvasElement
+  /**
+   * Creates a new path, which records the shapes for the hit testing.
+   * If it returns `null`, the shapes are drawn, but they are not registered (see {@link hit}.)
+   */
+  createPath(): Path2D | null
+  /**
+   * Returns the current device pixel ratio.
+   */
+  devicePixelRatio(): number
+  /**
+   * Schedules the callback for the next animation frame. It is called with the timestamp in ms.
+   */
+  requestAnimationFrame(callback: (timestamp: number) => void): number
+  /**
+   * Cancels the callback scheduled with `requestAnimationFrame`.
+   */
+  cancelAnimationFrame(handle: number): void
+  /**
+   * Creates a new image.
+   */
+  createImage(): HTMLImageElement
+  /**
+   * Loads the image from the given location. The callback is called when the image is ready.
+   */
+  loadImage(src: string, callback: (img: HTMLImageElement) => void): void
+  /**
+   * Loads the file from the given location as the `Blob` or the text.
+   */
+  request(src: string, type: 'blob' | 'text', callback: (response: Blob | string) => void): void
+}
+
+/**
+ * The default {@link Environment}, using the browser APIs.
+ * Where the API is not available (i.e. in Node.js), there is a fallback, if it makes sense.
+ */
+export const browserEnvironment: Environment = {
+  createCanvas(width: number, height: number): HTMLCanvasElement {
+    const cnv = document.createElement('canvas')
+    cnv.width = width
+    cnv.height = height
+    return cnv
+  },
+  createPath(): Path2D | null {
+    return typeof Path2D !== 'undefined' ? new Path2D() : null
+  },
+  devicePixelRatio(): number {
+    return typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+  },
+  requestAnimationFrame(callback: (timestamp: number) => void): number {
+    if (typeof requestAnimationFrame !== 'undefined') return requestAnimationFrame(callback)
+    return <number>(<unknown>setTimeout(() => callback(Date.now()), 1000 / 60))
+  },
+  cancelAnimationFrame(handle: number): void {
+    if (typeof cancelAnimationFrame !== 'undefined') cancelAnimationFrame(handle)
+    else clearTimeout(handle)
+  },
+  createImage(): HTMLImageElement {
+    return new Image()
+  },
+  loadImage(src: string, callback: (img: HTMLImageElement) => void): void {
+    env.request(src, 'blob', (response) => {
+      const img = env.createImage()
+      img.onload = () => callback(img)
+      img.src = createObjectURL(response as Blob)
+    })
+  },
+  request(src: string, type: 'blob' | 'text', callback: (response: Blob | string) => void): void {
+    const xhrObj = new XMLHttpRequest()
+    xhrObj.onload = () => callback(xhrObj.response)
+    xhrObj.open('get', src, true)
+    xhrObj.responseType = type
+    xhrObj.send()
+  },
+}
+
+/**
+ * The current {@link Environment}. It is changed with {@link setEnvironment}.
+ */
+export let env: Environment = browserEnvironment
+
+/**
+ * This function replaces the functions of the {@link Environment}. The functions which are not
+ * provided are taken from the {@link browserEnvironment}.
+ *
+ * ```typescript
+ * // Node.js with the canvas package
+ * import { createCanvas, Image, loadImage } from 'canvas'
+ * import { readFile } from 'fs'
+ *
+ * setEnvironment({
+ *     createCanvas: (w, h) => createCanvas(w, h) as unknown as HTMLCanvasElement,
+ *     createImage: () => new Image() as unknown as HTMLImageElement,
+ *     loadImage: (src, callback) =>
+ *         loadImage(src).then((img) => callback(img as unknown as HTMLImageElement)),
+ *     request: (src, type, callback) =>
+ *         readFile(src, 'utf8', (err, data) => callback(data)),
+ * })
+ * ```
+ * @param environment
+ */
+export function setEnvironment(environment: Partial<Environment>): void {
+  env = { ...browserEnvironment, ...environment }
+}
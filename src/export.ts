@@ -0,0 +1,206 @@
+'use strict'
+
+import { dva, renderTo, UserFunc, withSize } from './main'
+import { color2rgba } from './colors'
+import { env } from './env'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+
+/**
+ * Options of the {@link exportImage} function.
+ */
+export interface ExportImageOptions {
+  /**
+   * Width of the image in mm (default - the width of the canvas at 96 DPI.)
+   */
+  widthMm?: number
+  /**
+   * Height of the image in mm (default - the height of the canvas at 96 DPI.)
+   */
+  heightMm?: number
+  /**
+   * Resolution of the image (default {@link DVA.dpi}.)
+   */
+  dpi?: number
+  /**
+   * Format of the image (default `'png'`.)
+   */
+  format?: ImageFormat
+  /**
+   * Quality of the `'jpeg'` and `'webp'` image (between `0` and `1`.)
+   */
+  quality?: number
+  /**
+   * Color of the background (default - transparent, white for the `'jpeg'` image.)
+   */
+  background?: number[] | string | number
+  /**
+   * Function drawing the image (default - the `draw` function of the visualization.)
+   */
+  draw?: () => void
+}
+
+// CSS pixel is 1/96 of an inch
+const CSS_DPI = 96
+
+/**
+ * This function draws the frame into the given canvas, which is laid out as `w` x `h` CSS pixels
+ * and scaled by `pxRatio`. The canvas is cleared first.
+ * @ignore
+ */
+export function drawToCanvas(
+  canvas: HTMLCanvasElement,
+  w: number,
+  h: number,
+  pxRatio: number,
+  draw: UserFunc,
+  background?: number[] | string | number
+): void {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  if (background !== undefined) {
+    ctx.fillStyle = color2rgba(background)
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  ctx.scale(pxRatio, pxRatio)
+  if (draw) withSize(w, h, () => renderTo(ctx, draw))
+}
+
+function renderImage(options: ExportImageOptions): HTMLCanvasElement {
+  const dpi = options.dpi ?? dva.dpi
+  const widthMm = options.widthMm ?? (dva.width * 25.4) / CSS_DPI
+  const heightMm = options.heightMm ?? (dva.height * 25.4) / CSS_DPI
+  // the visualization is laid out in CSS pixels of the physical size, so the strokes and fonts
+  // have the same physical size as on the screen, and the pixel density is set by the scale
+  const w = (widthMm / 25.4) * CSS_DPI
+  const h = (heightMm / 25.4) * CSS_DPI
+  const pxRatio = dpi / CSS_DPI
+  const canvas = env.createCanvas(Math.round(w * pxRatio), Math.round(h * pxRatio))
+  const background = options.background ?? (options.format === 'jpeg' ? '#ffffff' : undefined)
+  drawToCanvas(canvas, w, h, pxRatio, options.draw ?? dva.draw, background)
+  return canvas
+}
+
+const crcTable: number[] = []
+for (let n = 0; n < 256; n++) {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  crcTable.push(c >>> 0)
+}
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// writes the resolution into the image, so it is printed in the right size
+function setResolution(bytes: Uint8Array, format: ImageFormat, dpi: number): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (format === 'png') {
+    // pHYs chunk is inserted after the IHDR chunk (8 bytes signature + 25 bytes)
+    const chunk = new Uint8Array(21)
+    const cv = new DataView(chunk.buffer)
+    const ppm = Math.round(dpi / 0.0254)
+    cv.setUint32(0, 9)
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4) // pHYs
+    cv.setUint32(8, ppm)
+    cv.setUint32(12, ppm)
+    chunk[16] = 1 // unit: meter
+    cv.setUint32(17, crc32(chunk.subarray(4, 17)))
+    const out = new Uint8Array(bytes.length + chunk.length)
+    out.set(bytes.subarray(0, 33))
+    out.set(chunk, 33)
+    out.set(bytes.subarray(33), 33 + chunk.length)
+    return out
+  }
+  if (format === 'jpeg' && view.getUint16(2) === 0xffe0 && view.getUint32(6) === 0x4a464946) {
+    // JFIF header: units (1 - DPI), X and Y density
+    bytes[13] = 1
+    view.setUint16(14, Math.round(dpi))
+    view.setUint16(16, Math.round(dpi))
+  }
+  return bytes
+}
+
+/**
+ * This function encodes the content of the canvas as the image file.
+ * It returns the bytes and the MIME type, which is PNG if the browser does not support the format.
+ * @ignore
+ */
+export function canvasToBytes(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat = 'png',
+  quality?: number
+): [Uint8Array, string] {
+  const url = canvas.toDataURL(`image/${format}`, quality)
+  const binary = atob(url.slice(url.indexOf(',') + 1))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return [bytes, url.slice(5, url.indexOf(';'))]
+}
+
+function encode(options: ExportImageOptions): [Uint8Array, string] {
+  const format = options.format ?? 'png'
+  const [bytes, type] = canvasToBytes(renderImage(options), format, options.quality)
+  // the browsers without the support of the format return PNG
+  if (type !== `image/${format}`) return [bytes, type]
+  return [setResolution(bytes, format, options.dpi ?? dva.dpi), type]
+}
+
+/**
+ * This function draws the current frame again into the offscreen canvas of the given physical size
+ * and resolution, and returns it as the image file. The visualization is laid out for the target size
+ * (`width` and `height` are set accordingly during the drawing), and the lines and texts keep
+ * their physical size, so a 12px font is printed 9pt high at any resolution.
+ * The resolution is also stored in the PNG and JPEG file.
+ *
+ * ```typescript
+ * function events() {
+ *     keyboard.bind('mod+p', () => {
+ *         download(exportImage({ widthMm: 180, heightMm: 120, dpi: 600 }), 'chart.png')
+ *     }, { preventDefault: true })
+ * }
+ * ```
+ * @param options
+ */
+export function exportImage(options: ExportImageOptions = {}): Blob {
+  const [bytes, type] = encode(options)
+  return new Blob([bytes], { type })
+}
+
+/**
+ * This function works the same way as {@link exportImage}, but returns the image as the data URL.
+ * @param options
+ */
+export function exportImageURL(options: ExportImageOptions = {}): string {
+  const [bytes, type] = encode(options)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return `data:${type};base64,${btoa(binary)}`
+}
+
+/**
+ * This function saves the data as the file in the browser. The data can be the `Blob`
+ * (i.e. returned by {@link exportImage}), the URL (i.e. the data URL returned by {@link exportImageURL})
+ * or the SVG string returned by {@link exportSVG}.
+ * @param data
+ * @param filename
+ */
+export function download(data: Blob | string, filename: string): void {
+  if (typeof data === 'string' && data.trim().startsWith('<svg')) {
+    data = new Blob([data], { type: 'image/svg+xml' })
+  }
+  const url = typeof data === 'string' ? data : URL.createObjectURL(data)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  if (typeof data !== 'string') setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,272 @@
+'use strict'
+
+// growing byte buffer of the encoded file
+class ByteBuffer {
+  private _bytes: Uint8Array
+  public length: number
+
+  constructor(size: number = 0x10000) {
+    this._bytes = new Uint8Array(size)
+    this.length = 0
+  }
+
+  private _reserve(n: number): void {
+    if (this.length + n <= this._bytes.length) return
+    let size = this._bytes.length * 2
+    while (size < this.length + n) size *= 2
+    const bytes = new Uint8Array(size)
+    bytes.set(this._bytes.subarray(0, this.length))
+    this._bytes = bytes
+  }
+
+  byte(b: number): void {
+    this._reserve(1)
+    this._bytes[this.length++] = b
+  }
+
+  word(w: number): void {
+    this.byte(w & 0xff)
+    this.byte((w >> 8) & 0xff)
+  }
+
+  bytes(bytes: ArrayLike<number>): void {
+    this._reserve(bytes.length)
+    this._bytes.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  string(s: string): void {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i))
+  }
+
+  toUint8Array(): Uint8Array {
+    return this._bytes.slice(0, this.length)
+  }
+}
+
+interface IndexedFrame {
+  palette: Uint8Array
+  indices: Uint8Array
+  transparent: number
+}
+
+// the pixels with lower alpha are transparent, GIF has no partial transparency
+const ALPHA_THRESHOLD = 128
+
+// colors are counted in 32 levels per channel, and the most frequent ones make the palette
+function quantize(rgba: ArrayLike<number>): IndexedFrame {
+  const n = rgba.length >> 2
+  const counts = new Uint32Array(32768)
+  const sums = new Float64Array(32768 * 3)
+  let transparent = -1
+  for (let i = 0; i < n; i++) {
+    const p = i << 2
+    if (rgba[p + 3] < ALPHA_THRESHOLD) {
+      transparent = 0
+      continue
+    }
+    const key = ((rgba[p] >> 3) << 10) | ((rgba[p + 1] >> 3) << 5) | (rgba[p + 2] >> 3)
+    counts[key]++
+    sums[key * 3] += rgba[p]
+    sums[key * 3 + 1] += rgba[p + 1]
+    sums[key * 3 + 2] += rgba[p + 2]
+  }
+  const keys: number[] = []
+  for (let k = 0; k < 32768; k++) if (counts[k] > 0) keys.push(k)
+  keys.sort((a, b) => counts[b] - counts[a])
+  const size = Math.min(keys.length, transparent >= 0 ? 255 : 256)
+  const palette = new Uint8Array(256 * 3)
+  const map = new Int16Array(32768).fill(-1)
+  for (let i = 0; i < size; i++) {
+    const k = keys[i]
+    palette[i * 3] = Math.round(sums[k * 3] / counts[k])
+    palette[i * 3 + 1] = Math.round(sums[k * 3 + 1] / counts[k])
+    palette[i * 3 + 2] = Math.round(sums[k * 3 + 2] / counts[k])
+    map[k] = i
+  }
+  // the rare colors are mapped to the nearest color of the palette
+  for (let i = size; i < keys.length; i++) {
+    const k = keys[i]
+    const r = sums[k * 3] / counts[k]
+    const g = sums[k * 3 + 1] / counts[k]
+    const b = sums[k * 3 + 2] / counts[k]
+    let best = 0
+    let bestDist = Infinity
+    for (let j = 0; j < size; j++) {
+      const dr = palette[j * 3] - r
+      const dg = palette[j * 3 + 1] - g
+      const db = palette[j * 3 + 2] - b
+      const dist = dr * dr + dg * dg + db * db
+      if (dist < bestDist) {
+        bestDist = dist
+        best = j
+      }
+    }
+    map[k] = best
+  }
+  if (transparent >= 0) transparent = size
+  const indices = new Uint8Array(n)
+  for (let i = 0; i < n; i++) {
+    const p = i << 2
+    if (rgba[p + 3] < ALPHA_THRESHOLD) {
+      indices[i] = transparent
+    } else {
+      indices[i] = map[((rgba[p] >> 3) << 10) | ((rgba[p + 1] >> 3) << 5) | (rgba[p + 2] >> 3)]
+    }
+  }
+  return { palette, indices, transparent }
+}
+
+// LZW compression of the image data, written in the sub-blocks of max 255 bytes
+function lzw(indices: Uint8Array, minCodeSize: number, out: ByteBuffer): void {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  const block = new Uint8Array(255)
+  let blockLength = 0
+  let acc = 0
+  let accBits = 0
+
+  const flushBlock = () => {
+    out.byte(blockLength)
+    out.bytes(block.subarray(0, blockLength))
+    blockLength = 0
+  }
+  const emit = (code: number) => {
+    acc |= code << accBits
+    accBits += codeSize
+    while (accBits >= 8) {
+      block[blockLength++] = acc & 0xff
+      if (blockLength === 255) flushBlock()
+      acc >>>= 8
+      accBits -= 8
+    }
+  }
+
+  out.byte(minCodeSize)
+  emit(clearCode)
+  if (indices.length > 0) {
+    let prefix = indices[0]
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i]
+      const key = (prefix << 8) | k
+      const code = table.get(key)
+      if (code !== undefined) {
+        prefix = code
+        continue
+      }
+      emit(prefix)
+      if (nextCode === 4096) {
+        emit(clearCode)
+        table = new Map<number, number>()
+        codeSize = minCodeSize + 1
+        nextCode = endCode + 1
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++
+        table.set(key, nextCode++)
+      }
+      prefix = k
+    }
+    emit(prefix)
+  }
+  emit(endCode)
+  if (accBits > 0) {
+    block[blockLength++] = acc & 0xff
+    if (blockLength === 255) flushBlock()
+  }
+  if (blockLength > 0) flushBlock()
+  out.byte(0)
+}
+
+/**
+ * The `GIFEncoder` class encodes the animated GIF from the RGBA frames,
+ * i.e. the data returned by `getImageData`. Every frame has its own palette of
+ * the 256 most frequent colors, and the pixels with alpha below 50% are transparent.
+ * It is used by {@link captureGIF}, but it can also encode the frames from any other source.
+ *
+ * ```typescript
+ * const gif = new GIFEncoder(width, height)
+ * for (const frame of frames) gif.addFrame(frame.data, 40)
+ * download(new Blob([gif.finish()], { type: 'image/gif' }), 'animation.gif')
+ * ```
+ */
+export class GIFEncoder {
+  /**
+   * Width of the image in pixels.
+   */
+  public readonly width: number
+  /**
+   * Height of the image in pixels.
+   */
+  public readonly height: number
+  private _out: ByteBuffer
+  private _finished: boolean
+
+  /**
+   * @param width Width of the image in pixels.
+   * @param height Height of the image in pixels.
+   * @param loop Number of repetitions, `0` (default value) - forever, `-1` - played only once.
+   */
+  constructor(width: number, height: number, loop: number = 0) {
+    this.width = width
+    this.height = height
+    this._out = new ByteBuffer()
+    this._finished = false
+    const out = this._out
+    out.string('GIF89a')
+    out.word(width)
+    out.word(height)
+    out.byte(0x70) // no global color table, 8 bits per channel
+    out.byte(0) // background color
+    out.byte(0) // pixel aspect ratio
+    if (loop >= 0) {
+      out.bytes([0x21, 0xff, 0x0b])
+      out.string('NETSCAPE2.0')
+      out.bytes([0x03, 0x01])
+      out.word(loop)
+      out.byte(0)
+    }
+  }
+
+  /**
+   * Adds the frame to the animation.
+   * @param rgba Pixels of the frame, 4 bytes per pixel, the same size as the image.
+   * @param delay Duration of the frame in milliseconds. GIF stores it in hundredths of a second.
+   */
+  addFrame(rgba: ArrayLike<number>, delay: number): void {
+    if (this._finished) throw new Error('dvalib: the GIF is already finished.')
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new Error('dvalib: the size of the frame does not match the size of the GIF.')
+    }
+    const { palette, indices, transparent } = quantize(rgba)
+    const out = this._out
+    // graphic control extension: the transparent frame replaces the previous one
+    out.bytes([0x21, 0xf9, 0x04])
+    out.byte(transparent >= 0 ? (2 << 2) | 1 : 1 << 2)
+    out.word(Math.round(delay / 10))
+    out.byte(transparent >= 0 ? transparent : 0)
+    out.byte(0)
+    // image descriptor with the local color table of 256 colors
+    out.byte(0x2c)
+    out.word(0)
+    out.word(0)
+    out.word(this.width)
+    out.word(this.height)
+    out.byte(0x87)
+    out.bytes(palette)
+    lzw(indices, 8, out)
+  }
+
+  /**
+   * Finishes the animation and returns the content of the GIF file.
+   */
+  finish(): Uint8Array {
+    if (!this._finished) {
+      this._out.byte(0x3b)
+      this._finished = true
+    }
+    return this._out.toUint8Array()
+  }
+}
@@ -0,0 +1,101 @@
+'use strict'
+
+import { dva, HitRegion, mouse } from './main'
+import { env, Environment } from './env'
+
+/**
+ * This function registers the shapes drawn next for the hit testing, with the given data attached.
+ * It works until {@link noHit} is called. Unlike the fill or stroke, the data is not
+ * saved and restored with the {@link save} and {@link restore} functions.
+ * The registered shapes are cleared before every frame.
+ *
+ * ```typescript
+ * function draw() {
+ *     clear()
+ *     for (const d of data) {
+ *         hit(d)
+ *         rect(x(d.name), y(d.value), x.bandwidth(), y(0) - y(d.value))
+ *     }
+ *     noHit()
+ *     const hovered = hitTest<Datum>()
+ *     if (hovered) tooltip(`${hovered.name}: ${hovered.value}`)
+ * }
+ * ```
+ * @param data Data attached to the shapes.
+ */
+export function hit(data: unknown): void {
+  dva.hitData = data
+}
+
+/**
+ * This function stops registering the shapes for the hit testing.
+ */
+export function noHit(): void {
+  dva.hitData = undefined
+}
+
+// the shapes are tested on a separate canvas, because the current render target
+// may be another one (i.e. inside renderTo) or may not support the hit testing at all
+let hitCtx: CanvasRenderingContext2D | null = null
+let hitEnv: Environment['createCanvas'] | null = null
+
+function hitContext(): CanvasRenderingContext2D | null {
+  if (hitEnv !== env.createCanvas) {
+    hitEnv = env.createCanvas
+    hitCtx = env.createCanvas(1, 1).getContext('2d')
+  }
+  return hitCtx ?? dva.ctx
+}
+
+function isHit(region: HitRegion, x: number, y: number): boolean {
+  const ctx = hitContext()
+  if (!ctx) return false
+  // the paths are tested in the pixels of their render target, with the drawing transformation
+  const px = x * region.pxRatio
+  const py = y * region.pxRatio
+  ctx.save()
+  ctx.setTransform(region.transform)
+  // thin lines are hard to point at, so at least 5 pixels are tested
+  ctx.lineWidth = Math.max(region.lineWidth, 5)
+  const result =
+    (region.fill && ctx.isPointInPath(region.path, px, py)) ||
+    ((region.stroke || !region.fill) && ctx.isPointInStroke(region.path, px, py))
+  ctx.restore()
+  return result
+}
+
+/**
+ * This function returns the data of all the registered shapes at the given position
+ * (by default at the mouse position), from the topmost one. Without the mouse, i.e. on
+ * the {@link headlessCanvas}, the position has to be given.
+ * @param x
+ * @param y
+ */
+export function hitTestAll<T = unknown>(
+  x: number = mouse ? mouse.x : NaN,
+  y: number = mouse ? mouse.y : NaN
+): T[] {
+  const result: T[] = []
+  for (let i = dva.hitRegions.length - 1; i >= 0; i--) {
+    if (isHit(dva.hitRegions[i], x, y)) result.push(dva.hitRegions[i].data as T)
+  }
+  return result
+}
+
+/**
+ * This function returns the data of the topmost registered shape at the given position
+ * (by default at the mouse position), or `undefined` if there is no shape. Without the mouse,
+ * i.e. on the {@link headlessCanvas}, the position has to be given.
+ * It can be used also in the mouse callbacks, i.e. `mouse.click`.
+ * @param x
+ * @param y
+ */
+export function hitTest<T = unknown>(
+  x: number = mouse ? mouse.x : NaN,
+  y: number = mouse ? mouse.y : NaN
+): T | undefined {
+  for (let i = dva.hitRegions.length - 1; i >= 0; i--) {
+    if (isHit(dva.hitRegions[i], x, y)) return dva.hitRegions[i].data as T
+  }
+  return undefined
+}
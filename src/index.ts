@@ -8,3 +8,21 @@ export * from './numbers'
 export * from './drawing'
 export * from './colors'
 export * from './helpers'
+export * from './instance'
+export * from './pointer'
+export * from './zoom'
+export * from './easing'
+export * from './tween'
+export * from './axis'
+export * from './legend'
+export * from './hit'
+export * from './tooltip'
+export * from './layers'
+export * from './scene'
+export * from './context'
+export * from './svg'
+export * from './recording'
+export * from './export'
+export * from './env'
+export * from './gif'
+export * from './capture'
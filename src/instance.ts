@@ -0,0 +1,345 @@
+'use strict'
+
+import {
+  AnimationCtrl,
+  cursor,
+  DVA,
+  drawFrame,
+  DVAState,
+  Keyboard,
+  Mouse,
+  redraw,
+  redrawOnDemand,
+  renderFrame,
+  resizeCanvas,
+  responsive,
+  restore,
+  rotate,
+  save,
+  scale,
+  scaleModifier,
+  setContextDefault,
+  staticDrawing,
+  translate,
+  UserFunc,
+  withState,
+} from './main'
+import {
+  arc,
+  background,
+  beginPath,
+  bezier,
+  bezierTo,
+  circle,
+  clear,
+  closePath,
+  dashLine,
+  ellipse,
+  endPath,
+  fill,
+  line,
+  lineTo,
+  moveTo,
+  noFill,
+  noStroke,
+  placeImage,
+  point,
+  polygon,
+  polyline,
+  quadraticTo,
+  rect,
+  ring,
+  shadow,
+  solidLine,
+  spline,
+  star,
+  stroke,
+  strokeCup,
+  strokeJoin,
+  strokeWidth,
+} from './drawing'
+import {
+  fontFamily,
+  fontSize,
+  fontStyle,
+  fontUnit,
+  fontWeight,
+  lineHeight,
+  text,
+  textAlign,
+  textBaseline,
+  textDim,
+  textOnArc,
+  textWidth,
+} from './typography'
+import { linearGradient } from './colors'
+import { mm2px, px2mm } from './helpers'
+import { Pointers } from './pointer'
+import { hit, hitTest, hitTestAll, noHit } from './hit'
+import { tooltip } from './tooltip'
+import { createLayer, drawLayers, getLayer, invalidateLayers, removeLayer } from './layers'
+import { exportSVG } from './svg'
+import { record } from './recording'
+import { download, exportImage, exportImageURL } from './export'
+import { timeline, tween } from './tween'
+import { revokeObjectURLs } from './assets'
+import { env } from './env'
+import { ZoomPan, ZoomPanOptions } from './zoom'
+import { captureFrames, captureGIF, capturePNGSequence, captureWebM } from './capture'
+
+/**
+ * The `DVAInstance` class represents a single, independent visualization.
+ * Every instance owns its own {@link DVA}, {@link Mouse}, {@link Pointers}, {@link Keyboard}
+ * and {@link AnimationCtrl}, so any number of visualizations can live on the same page.
+ * Use the {@link instance} function to create it.
+ * #### Usage example
+ *
+ * ```typescript
+ * import { instance } from 'dvalib'
+ *
+ * const viz = instance(document.getElementById('chart-1')!)
+ *
+ * viz.start(
+ *     () => {
+ *         viz.resizeCanvas(300, 200)
+ *         viz.fontSize(16)
+ *     },
+ *     () => {
+ *         viz.clear()
+ *         viz.fill(0)
+ *         viz.text(`mouse: ${viz.mouse.x}, ${viz.mouse.y}`, 20, 30)
+ *     }
+ * )
+ * ```
+ */
+export class DVAInstance implements DVAState {
+  /**
+   * The instance of the {@link DVA} class bound to this visualization.
+   */
+  public dva: DVA
+  /**
+   * The instance of the {@link Keyboard} class bound to this visualization.
+   */
+  public keyboard: Keyboard
+  /**
+   * The instance of the {@link Mouse} class bound to this visualization.
+   */
+  public mouse: Mouse
+  /**
+   * The instance of the {@link Pointers} class bound to this visualization.
+   */
+  public pointers: Pointers
+  /**
+   * The instance of the {@link AnimationCtrl} class bound to this visualization.
+   */
+  public animation: AnimationCtrl
+  private _draw: UserFunc
+  private _ownCanvas: boolean
+
+  /**
+   * @param target Canvas element, or the parent element to which a new canvas is appended.
+   * It can also be an id attribute of such element.
+   * @param id Id attribute of the newly created canvas.
+   */
+  constructor(target: HTMLElement | string, id?: string) {
+    const el = typeof target === 'string' ? document.getElementById(target) : target
+    if (!el) throw new Error(`dvalib: element '${target}' not found.`)
+    let cnv: HTMLCanvasElement
+    // the canvas is recognized without HTMLCanvasElement, which is not defined outside the browser
+    this._ownCanvas = typeof (<HTMLCanvasElement>el).getContext !== 'function'
+    if (!this._ownCanvas) {
+      cnv = <HTMLCanvasElement>el
+    } else {
+      cnv = env.createCanvas(300, 150)
+      if (id !== undefined) cnv.id = id
+      el.appendChild(cnv)
+    }
+    this._draw = null
+    this.dva = new DVA(cnv)
+    // the input callbacks are executed with the state of this instance
+    const scope = (fn: () => void) => withState(this, fn)
+    this.keyboard = new Keyboard(cnv, scope)
+    this.mouse = new Mouse(cnv, scope)
+    this.pointers = new Pointers(cnv, scope)
+    this.animation = new AnimationCtrl(() => {
+      withState(this, () => drawFrame(this._draw))
+    })
+    withState(this, setContextDefault)
+  }
+
+  /**
+   * This method starts the visualization. It works like {@link dvaStart},
+   * but all the functions are executed in the context of this instance,
+   * so also the global functions (i.e. {@link rect}) draw on this instance's canvas.
+   * @param setup Function defined by user for initialization.
+   * @param draw Function defined by user for canvas redrawing.
+   * @param events Function defined by user for events handling.
+   */
+  public start(setup?: UserFunc, draw?: UserFunc, events?: UserFunc): void {
+    this._draw = draw ?? null
+    this.dva.draw = this._draw
+    withState(this, () => {
+      if (typeof setup == 'function') setup()
+      if (typeof events == 'function') events()
+    })
+    this.animation.start()
+  }
+
+  /**
+   * This method stops the animation and removes all the event listeners of this instance.
+   * The canvas created by the instance is removed from the DOM.
+   */
+  public dispose(): void {
+    this.animation.stop()
+    this.dva.unobserveResize()
+    this.dva.unobserveInput()
+    this.mouse.dispose()
+    this.pointers.dispose()
+    this.keyboard.dispose()
+    revokeObjectURLs(this.dva)
+    if (this._ownCanvas) this.dva.canvas.remove()
+  }
+
+  /**
+   * Width of the canvas in pixels.
+   */
+  get width(): number {
+    return this.dva.width
+  }
+
+  /**
+   * Height of the canvas in pixels.
+   */
+  get height(): number {
+    return this.dva.height
+  }
+
+  /**
+   * Canvas element of this instance.
+   */
+  get canvas(): HTMLCanvasElement {
+    return this.dva.canvas
+  }
+
+  private _bind<A extends unknown[], R>(f: (...args: A) => R): (...args: A) => R {
+    return (...args: A): R => withState(this, () => f(...args))
+  }
+
+  /* main */
+  public cursor = this._bind(cursor)
+  public scaleModifier = this._bind(scaleModifier)
+  public resizeCanvas = this._bind(resizeCanvas)
+  public responsive = this._bind(responsive)
+  public translate = this._bind(translate)
+  public rotate = this._bind(rotate)
+  public scale = this._bind(scale)
+  public save = this._bind(save)
+  public restore = this._bind(restore)
+  public staticDrawing = this._bind(staticDrawing)
+  public redrawOnDemand = this._bind(redrawOnDemand)
+  public redraw = this._bind(redraw)
+  public renderFrame = this._bind(renderFrame)
+
+  /* tweens */
+  public tween = this._bind(tween)
+  public timeline = this._bind(timeline)
+
+  /* drawing */
+  public clear = this._bind(clear)
+  public background = this._bind(background)
+  public stroke = this._bind(stroke)
+  public strokeWidth = this._bind(strokeWidth)
+  public noStroke = this._bind(noStroke)
+  public strokeCup = this._bind(strokeCup)
+  public strokeJoin = this._bind(strokeJoin)
+  public dashLine = this._bind(dashLine)
+  public solidLine = this._bind(solidLine)
+  public fill = this._bind(fill)
+  public noFill = this._bind(noFill)
+  public shadow = this._bind(shadow)
+  public point = this._bind(point)
+  public line = this._bind(line)
+  public arc = this._bind(arc)
+  public circle = this._bind(circle)
+  public ellipse = this._bind(ellipse)
+  public ring = this._bind(ring)
+  public rect = this._bind(rect)
+  public star = this._bind(star)
+  public polygon = this._bind(polygon)
+  public polyline = this._bind(polyline)
+  public spline = this._bind(spline)
+  public bezier = this._bind(bezier)
+  public beginPath = this._bind(beginPath)
+  public endPath = this._bind(endPath)
+  public closePath = this._bind(closePath)
+  public moveTo = this._bind(moveTo)
+  public lineTo = this._bind(lineTo)
+  public bezierTo = this._bind(bezierTo)
+  public quadraticTo = this._bind(quadraticTo)
+  public placeImage = this._bind(placeImage)
+
+  /* typography */
+  public text = this._bind(text)
+  public fontSize = this._bind(fontSize)
+  public fontUnit = this._bind(fontUnit)
+  public textWidth = this._bind(textWidth)
+  public textDim = this._bind(textDim)
+  public textAlign = this._bind(textAlign)
+  public textBaseline = this._bind(textBaseline)
+  public fontStyle = this._bind(fontStyle)
+  public fontWeight = this._bind(fontWeight)
+  public fontFamily = this._bind(fontFamily)
+  public lineHeight = this._bind(lineHeight)
+  public textOnArc = this._bind(textOnArc)
+
+  /* hit testing */
+  public hit = this._bind(hit)
+  public noHit = this._bind(noHit)
+  public hitTest = this._bind(hitTest)
+  public hitTestAll = this._bind(hitTestAll)
+  public tooltip = this._bind(tooltip)
+
+  /* layers */
+  public createLayer = this._bind(createLayer)
+  public getLayer = this._bind(getLayer)
+  public removeLayer = this._bind(removeLayer)
+  public drawLayers = this._bind(drawLayers)
+  public invalidateLayers = this._bind(invalidateLayers)
+
+  /* export */
+  public exportSVG = this._bind(exportSVG)
+  public record = this._bind(record)
+  public exportImage = this._bind(exportImage)
+  public exportImageURL = this._bind(exportImageURL)
+  public download = this._bind(download)
+  public captureFrames = this._bind(captureFrames)
+  public capturePNGSequence = this._bind(capturePNGSequence)
+  public captureGIF = this._bind(captureGIF)
+  public captureWebM = this._bind(captureWebM)
+
+  /* zoom */
+  /**
+   * Creates the {@link ZoomPan} controller for the canvas of this instance. Its event handlers
+   * are executed with this instance active.
+   * @param options
+   */
+  public zoomPan = (options?: ZoomPanOptions): ZoomPan =>
+    withState(this, () => new ZoomPan(this.dva.canvas, options))
+
+  /* colors and units */
+  public linearGradient = this._bind(linearGradient)
+  public mm2px = this._bind(mm2px)
+  public px2mm = this._bind(px2mm)
+}
+
+/**
+ * This function creates a new, independent visualization. Unlike the global functions,
+ * which always work with the default canvas, every instance has its own canvas, mouse, keyboard
+ * and animation, so several visualizations can be placed on the same page.
+ * @param target Canvas element, or the parent element to which a new canvas is appended.
+ * It can also be an id attribute of such element.
+ * @param id Id attribute of the newly created canvas.
+ */
+export function instance(target: HTMLElement | string, id?: string): DVAInstance {
+  return new DVAInstance(target, id)
+}
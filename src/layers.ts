@@ -0,0 +1,203 @@
+'use strict'
+
+import { dva, HitRegion, redraw, renderTo } from './main'
+import { env } from './env'
+
+/**
+ * The `Layer` class keeps a part of the visualization on its own offscreen canvas.
+ * The layer is rendered again only when it is invalidated, otherwise the stored image
+ * is just copied to the canvas, so the static content (i.e. axes and gridlines)
+ * does not have to be drawn every frame. It is created with the {@link createLayer} function.
+ */
+export class Layer {
+  /**
+   * Name of the layer.
+   */
+  public name: string
+  /**
+   * Layers are composited from the lowest `zIndex` to the highest one.
+   */
+  public zIndex: number
+  /**
+   * If `false`, the layer is not composited.
+   */
+  public visible: boolean
+  /**
+   * Opacity of the layer (between `0` and `1`.)
+   */
+  public opacity: number
+  /**
+   * Function drawing the content of the layer. All the drawing functions work inside it as usual,
+   * but they draw on the offscreen canvas of the layer.
+   */
+  public render: ((layer: Layer) => void) | null
+  /**
+   * Offscreen canvas of the layer.
+   */
+  public canvas: HTMLCanvasElement
+  private _valid: boolean
+  private _hitRegions: HitRegion[]
+
+  /**
+   * @param name
+   * @param render Function drawing the content of the layer.
+   * @param zIndex
+   */
+  constructor(name: string, render: ((layer: Layer) => void) | null, zIndex: number = 0) {
+    this.name = name
+    this.render = render
+    this.zIndex = zIndex
+    this.visible = true
+    this.opacity = 1
+    this.canvas = env.createCanvas(0, 0)
+    this._valid = false
+    this._hitRegions = []
+  }
+
+  /**
+   * Marks the layer to be rendered again before the next compositing.
+   */
+  invalidate(): void {
+    this._valid = false
+    redraw()
+  }
+
+  /**
+   * Returns `false` if the layer has to be rendered again.
+   */
+  get isValid(): boolean {
+    return this._valid
+  }
+
+  /**
+   * Renders the layer on its offscreen canvas, if it is invalidated or the canvas size has changed.
+   */
+  update(): void {
+    // the layer is not rendered for the other render targets, see composite()
+    if (!dva.ctx || dva.ctx.canvas !== dva.canvas) return
+    const w = dva.canvas.width
+    const h = dva.canvas.height
+    if (this.canvas.width !== w || this.canvas.height !== h) {
+      this.canvas.width = w
+      this.canvas.height = h
+      this._valid = false
+    }
+    if (this._valid) return
+    const ctx = this.canvas.getContext('2d')
+    if (!ctx) return
+    const pxRatio = w / (dva.width || 1)
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, w, h)
+    ctx.setTransform(pxRatio, 0, 0, pxRatio, 0, 0)
+    this._valid = true
+    this._hitRegions = renderTo(ctx, () => {
+      if (this.render) this.render(this)
+    })
+  }
+
+  /**
+   * Draws the layer on the canvas. The shapes registered for the hit testing
+   * inside the layer are registered again, so they can be found with {@link hitTest}.
+   */
+  composite(): void {
+    if (!dva.ctx || !this.visible) return
+    if (dva.ctx.canvas !== dva.canvas) {
+      // the other render targets (i.e. the SVG or the exported image) get the content of the layer,
+      // not its bitmap
+      const style = dva.getStyle()
+      dva.ctx.save()
+      dva.ctx.globalAlpha *= this.opacity
+      if (this.render) this.render(this)
+      dva.ctx.restore()
+      dva.setStyle(style)
+      return
+    }
+    dva.ctx.save()
+    dva.ctx.setTransform(1, 0, 0, 1, 0, 0)
+    dva.ctx.globalAlpha *= this.opacity
+    dva.ctx.drawImage(this.canvas, 0, 0)
+    dva.ctx.restore()
+    dva.hitRegions.push(...this._hitRegions)
+  }
+}
+
+/**
+ * This function creates a new layer, and adds it to the visualization.
+ * If there is a layer with the same name, it is replaced.
+ * The layers are drawn with the {@link drawLayers} function.
+ *
+ * ```typescript
+ * function setup() {
+ *     createLayer('axes', () => {
+ *         stroke('#a8a29e')
+ *         xAxis.draw(height - 30)
+ *         yAxis.draw(40)
+ *     }, 0)
+ *     createLayer('data', () => {
+ *         for (const d of data) circle(x(d.x), y(d.y), 3)
+ *     }, 1)
+ * }
+ *
+ * function draw() {
+ *     clear()
+ *     drawLayers()
+ *     circle(mouse.x, mouse.y, 5) // drawn every frame on the top of the layers
+ * }
+ *
+ * function events() {
+ *     mouse.click = () => {
+ *         data.push({ x: x.invert(mouse.x), y: y.invert(mouse.y) })
+ *         getLayer('data')?.invalidate()
+ *     }
+ * }
+ * ```
+ * @param name Name of the layer.
+ * @param render Function drawing the content of the layer.
+ * @param zIndex Order of the layer (default - on the top of the existing layers.)
+ */
+export function createLayer(
+  name: string,
+  render: (layer: Layer) => void,
+  zIndex: number = dva.layers.length
+): Layer {
+  removeLayer(name)
+  const layer = new Layer(name, render, zIndex)
+  dva.layers.push(layer)
+  redraw()
+  return layer
+}
+
+/**
+ * This function returns the layer with the given name, or `undefined` if there is no such layer.
+ * @param name
+ */
+export function getLayer(name: string): Layer | undefined {
+  return dva.layers.find((l) => l.name === name)
+}
+
+/**
+ * This function removes the layer with the given name.
+ * @param name
+ */
+export function removeLayer(name: string): void {
+  dva.layers = dva.layers.filter((l) => l.name !== name)
+}
+
+/**
+ * This function renders the invalidated layers and draws all the visible layers
+ * on the canvas in the `zIndex` order.
+ */
+export function drawLayers(): void {
+  const layers = dva.layers.slice().sort((a, b) => a.zIndex - b.zIndex)
+  for (const l of layers) {
+    l.update()
+    l.composite()
+  }
+}
+
+/**
+ * This function invalidates all the layers, so they are rendered again.
+ */
+export function invalidateLayers(): void {
+  for (const l of dva.layers) l.invalidate()
+}
@@ -0,0 +1,477 @@
+'use strict'
+
+import { dva, mouse, restore, save } from './main'
+import { line } from './drawing'
+import { text, textAlign, textBaseline, textWidth } from './typography'
+import { ColorScale, color2rgba, linearGradient } from './colors'
+import { ticks } from './scales'
+import { formatTick } from './axis'
+import { TWO_PI } from './math'
+import { Matrix } from './context'
+
+export type SwatchShape = 'square' | 'circle' | 'line'
+
+/**
+ * Single item of the {@link SwatchLegend}.
+ */
+export interface LegendItem {
+  /**
+   * Label of the item.
+   */
+  label: string
+  /**
+   * Color of the swatch.
+   */
+  color: string
+  /**
+   * Shape of the swatch (default - the shape from the legend options.)
+   */
+  shape?: SwatchShape
+  /**
+   * If `true`, the item is drawn faded, i.e. when the series is hidden.
+   */
+  inactive?: boolean
+}
+
+/**
+ * Options of the {@link SwatchLegend}.
+ */
+export interface SwatchLegendOptions {
+  /**
+   * Direction in which the items are placed (default `'vertical'`.)
+   */
+  orientation?: 'horizontal' | 'vertical'
+  /**
+   * Shape of the swatches (default `'square'`.)
+   */
+  shape?: SwatchShape
+  /**
+   * Size of the swatches (default `12`.)
+   */
+  swatchSize?: number
+  /**
+   * Space between the items (default `6` for the vertical legend, `16` for the horizontal one.)
+   */
+  itemGap?: number
+  /**
+   * Width of the horizontal legend, after which the items wrap to the next row.
+   * Height of the vertical legend, after which the items wrap to the next column.
+   * By default, the items do not wrap.
+   */
+  wrap?: number
+  /**
+   * Title of the legend.
+   */
+  title?: string
+}
+
+interface LegendHit {
+  x: number
+  y: number
+  w: number
+  h: number
+  index: number
+}
+
+// transformation from the legend coordinates to the CSS pixels, in which the mouse is reported
+function screenMatrix(ctx: CanvasRenderingContext2D): Matrix {
+  const k = dva.pxRatio(ctx)
+  const m = ctx.getTransform()
+  return [m.a / k, m.b / k, m.c / k, m.d / k, m.e / k, m.f / k]
+}
+
+function toLocal(m: Matrix, x: number, y: number): [number, number] {
+  const det = m[0] * m[3] - m[1] * m[2]
+  if (det === 0) return [NaN, NaN]
+  const dx = x - m[4]
+  const dy = y - m[5]
+  return [(m[3] * dx - m[2] * dy) / det, (m[0] * dy - m[1] * dx) / det]
+}
+
+function hitAt(hits: LegendHit[], x: number, y: number): LegendHit | null {
+  return hits.find((h) => x >= h.x && x <= h.x + h.w && y >= h.y && y <= h.y + h.h) ?? null
+}
+
+function drawTitle(title: string | undefined, x: number, y: number): number {
+  // returns the space taken by the title
+  if (!title) return 0
+  textAlign('left')
+  textBaseline('top')
+  text(title, x, y)
+  return dva.fontSize * dva.lineHeight + 4
+}
+
+/**
+ * The `SwatchLegend` class draws the legend of the categorical data: a colored swatch and a label
+ * for every item. It is created with the {@link swatchLegend} function.
+ * The items can be clicked, i.e. to toggle the series:
+ *
+ * ```typescript
+ * const legend = swatchLegend([
+ *     { label: 'Sales', color: '#0072b2' },
+ *     { label: 'Costs', color: '#d55e00' },
+ * ], { orientation: 'horizontal' })
+ *
+ * function draw() {
+ *     clear()
+ *     fill('#333')
+ *     legend.draw(20, 10)
+ * }
+ *
+ * function events() {
+ *     mouse.click = () => {
+ *         const item = legend.itemAt()
+ *         if (item) item.inactive = !item.inactive
+ *     }
+ * }
+ * ```
+ */
+export class SwatchLegend {
+  /**
+   * Items of the legend.
+   */
+  public items: LegendItem[]
+  /**
+   * Options of the legend. They can be changed at any time.
+   */
+  public options: SwatchLegendOptions
+  private _hits: LegendHit[]
+  private _matrix: Matrix
+
+  /**
+   * @param items
+   * @param options
+   */
+  constructor(items: LegendItem[], options: SwatchLegendOptions = {}) {
+    this.items = items
+    this.options = options
+    this._hits = []
+    this._matrix = [1, 0, 0, 1, 0, 0]
+  }
+
+  /**
+   * Draws the legend. The labels are drawn with the current fill and font.
+   * @param x X coordinate of the top left corner.
+   * @param y Y coordinate of the top left corner.
+   */
+  draw(x: number, y: number): void {
+    const ctx = dva.ctx
+    if (!ctx) return
+    const horizontal = this.options.orientation === 'horizontal'
+    const size = this.options.swatchSize ?? 12
+    const gap = this.options.itemGap ?? (horizontal ? 16 : 6)
+    const wrap = this.options.wrap ?? Infinity
+    const rowHeight = Math.max(size, dva.fontSize)
+    save()
+    y += drawTitle(this.options.title, x, y)
+    textAlign('left')
+    textBaseline('middle')
+    this._hits = []
+    this._matrix = screenMatrix(ctx)
+    let cx = x
+    let cy = y
+    let columnWidth = 0
+    this.items.forEach((item, i) => {
+      const w = size + 6 + textWidth(item.label)
+      if (horizontal && cx > x && cx + w - x > wrap) {
+        cx = x
+        cy += rowHeight + 6
+      } else if (!horizontal && cy > y && cy + rowHeight - y > wrap) {
+        cx += columnWidth + 16
+        cy = y
+        columnWidth = 0
+      }
+      save()
+      if (item.inactive) ctx.globalAlpha *= 0.3
+      drawSwatch(item.shape ?? this.options.shape ?? 'square', item.color, cx, cy, size, rowHeight)
+      text(item.label, cx + size + 6, cy + rowHeight / 2)
+      restore()
+      this._hits.push({ x: cx, y: cy, w: w, h: rowHeight, index: i })
+      if (horizontal) {
+        cx += w + gap
+      } else {
+        cy += rowHeight + gap
+        columnWidth = Math.max(columnWidth, w)
+      }
+    })
+    restore()
+  }
+
+  /**
+   * Returns the item at the given position (by default at the mouse position),
+   * or `null` if there is no item. It uses the positions from the last {@link draw} call.
+   * @param x
+   * @param y
+   */
+  itemAt(x: number = mouse ? mouse.x : NaN, y: number = mouse ? mouse.y : NaN): LegendItem | null {
+    const hit = hitAt(this._hits, ...toLocal(this._matrix, x, y))
+    return hit ? this.items[hit.index] : null
+  }
+}
+
+function drawSwatch(
+  shape: SwatchShape,
+  color: string,
+  x: number,
+  y: number,
+  size: number,
+  h: number
+): void {
+  const ctx = dva.ctx
+  if (!ctx) return
+  const c = color2rgba(color)
+  const cy = y + h / 2
+  ctx.beginPath()
+  switch (shape) {
+    case 'square':
+      ctx.fillStyle = c
+      ctx.fillRect(x, cy - size / 2, size, size)
+      break
+    case 'circle':
+      ctx.fillStyle = c
+      ctx.arc(x + size / 2, cy, size / 2, 0, TWO_PI)
+      ctx.fill()
+      break
+    case 'line':
+      ctx.strokeStyle = c
+      ctx.moveTo(x, cy)
+      ctx.lineTo(x + size, cy)
+      ctx.stroke()
+      break
+  }
+  // the label is drawn with the current fill
+  ctx.fillStyle = dva.currentFill
+}
+
+/**
+ * Options of the {@link ColorLegend}.
+ */
+export interface ColorLegendOptions {
+  /**
+   * Width of the color ramp (default `200`.)
+   */
+  width?: number
+  /**
+   * Height of the color ramp (default `10`.)
+   */
+  height?: number
+  /**
+   * Approximate number of the ticks (default `5`.)
+   */
+  ticks?: number
+  /**
+   * Explicit values of the ticks.
+   */
+  tickValues?: number[]
+  /**
+   * Function formatting the tick labels.
+   */
+  format?: (v: number) => string
+  /**
+   * Title of the legend.
+   */
+  title?: string
+}
+
+/**
+ * The `ColorLegend` class draws the continuous color ramp of the {@link ColorScale} with the ticks.
+ * It is created with the {@link colorLegend} function.
+ */
+export class ColorLegend {
+  /**
+   * Color scale shown by the legend.
+   */
+  public scale: ColorScale
+  /**
+   * Options of the legend. They can be changed at any time.
+   */
+  public options: ColorLegendOptions
+  private _hits: LegendHit[]
+  private _matrix: Matrix
+
+  /**
+   * @param scale
+   * @param options
+   */
+  constructor(scale: ColorScale, options: ColorLegendOptions = {}) {
+    this.scale = scale
+    this.options = options
+    this._hits = []
+    this._matrix = [1, 0, 0, 1, 0, 0]
+  }
+
+  /**
+   * Draws the legend. The ticks are drawn with the current stroke,
+   * and the labels with the current fill and font.
+   * @param x X coordinate of the top left corner.
+   * @param y Y coordinate of the top left corner.
+   */
+  draw(x: number, y: number): void {
+    if (!dva.ctx) return
+    const w = this.options.width ?? 200
+    const h = this.options.height ?? 10
+    const d = this.scale.domain()
+    const min = d[0]
+    const max = d[d.length - 1]
+    save()
+    y += drawTitle(this.options.title, x, y)
+    const gradient = linearGradient(x, 0, x + w, 0)
+    for (let i = 0; i <= 16; i++) {
+      gradient.addColorStop(i / 16, this.scale(min + ((max - min) * i) / 16))
+    }
+    dva.ctx.fillStyle = gradient as CanvasFillStrokeStyles['fillStyle']
+    dva.ctx.fillRect(x, y, w, h)
+    dva.ctx.fillStyle = dva.currentFill
+    textAlign('center')
+    textBaseline('top')
+    const values = this.options.tickValues ?? ticks(min, max, this.options.ticks ?? 5)
+    for (const v of values) {
+      const tx = x + (max === min ? w / 2 : ((v - min) / (max - min)) * w)
+      line(tx, y, tx, y + h + 4)
+      text(this.options.format ? this.options.format(v) : formatTick(v), tx, y + h + 6)
+    }
+    this._hits = [{ x: x, y: y, w: w, h: h, index: 0 }]
+    this._matrix = screenMatrix(dva.ctx)
+    restore()
+  }
+
+  /**
+   * Returns the value of the color ramp at the given position (by default at the mouse position),
+   * or `null` if the position is outside the ramp. It uses the position from the last {@link draw} call.
+   * @param x
+   * @param y
+   */
+  valueAt(x: number = mouse ? mouse.x : NaN, y: number = mouse ? mouse.y : NaN): number | null {
+    const [lx, ly] = toLocal(this._matrix, x, y)
+    const hit = hitAt(this._hits, lx, ly)
+    if (!hit) return null
+    const d = this.scale.domain()
+    return d[0] + ((d[d.length - 1] - d[0]) * (lx - hit.x)) / hit.w
+  }
+}
+
+/**
+ * Options of the {@link SizeLegend}.
+ */
+export interface SizeLegendOptions {
+  /**
+   * Function formatting the labels.
+   */
+  format?: (v: number) => string
+  /**
+   * Title of the legend.
+   */
+  title?: string
+}
+
+/**
+ * The `SizeLegend` class draws the nested circles for the bubble charts.
+ * It is created with the {@link sizeLegend} function.
+ */
+export class SizeLegend {
+  /**
+   * Scale mapping the values to the radius of the circle, i.e. {@link sqrtScale}.
+   */
+  public scale: (v: number) => number
+  /**
+   * Values shown in the legend.
+   */
+  public values: number[]
+  /**
+   * Options of the legend. They can be changed at any time.
+   */
+  public options: SizeLegendOptions
+  private _circles: { x: number; y: number; r: number; index: number }[]
+  private _matrix: Matrix
+
+  /**
+   * @param scale
+   * @param values
+   * @param options
+   */
+  constructor(scale: (v: number) => number, values: number[], options: SizeLegendOptions = {}) {
+    this.scale = scale
+    this.values = values
+    this.options = options
+    this._circles = []
+    this._matrix = [1, 0, 0, 1, 0, 0]
+  }
+
+  /**
+   * Draws the legend. The circles and the leader lines are drawn with the current stroke,
+   * and the labels with the current fill and font.
+   * @param x X coordinate of the top left corner.
+   * @param y Y coordinate of the top left corner.
+   */
+  draw(x: number, y: number): void {
+    const ctx = dva.ctx
+    if (!ctx) return
+    const radii = this.values.map((v) => Math.max(0, this.scale(v)))
+    const rMax = Math.max(0, ...radii)
+    save()
+    y += drawTitle(this.options.title, x, y)
+    textAlign('left')
+    textBaseline('middle')
+    const bottom = y + rMax * 2
+    this._circles = []
+    this._matrix = screenMatrix(ctx)
+    this.values.forEach((v, i) => {
+      const r = radii[i]
+      const cx = x + rMax
+      const cy = bottom - r
+      ctx.beginPath()
+      ctx.arc(cx, cy, r, 0, TWO_PI)
+      ctx.stroke()
+      line(cx, cy - r, x + rMax * 2 + 8, cy - r)
+      text(this.options.format ? this.options.format(v) : formatTick(v), x + rMax * 2 + 12, cy - r)
+      this._circles.push({ x: cx, y: cy, r: r, index: i })
+    })
+    restore()
+  }
+
+  /**
+   * Returns the value of the smallest circle at the given position (by default at the mouse position),
+   * or `null` if there is no circle. It uses the positions from the last {@link draw} call.
+   * @param x
+   * @param y
+   */
+  valueAt(x: number = mouse ? mouse.x : NaN, y: number = mouse ? mouse.y : NaN): number | null {
+    const [lx, ly] = toLocal(this._matrix, x, y)
+    const inside = this._circles
+      .filter((c) => (lx - c.x) ** 2 + (ly - c.y) ** 2 <= c.r ** 2)
+      .sort((a, b) => a.r - b.r)
+    return inside.length > 0 ? this.values[inside[0].index] : null
+  }
+}
+
+/**
+ * This function returns the legend of the categorical data (see {@link SwatchLegend}.)
+ * @param items
+ * @param options
+ */
+export function swatchLegend(items: LegendItem[], options: SwatchLegendOptions = {}): SwatchLegend {
+  return new SwatchLegend(items, options)
+}
+
+/**
+ * This function returns the legend of the continuous color scale (see {@link ColorLegend}.)
+ * @param scale
+ * @param options
+ */
+export function colorLegend(scale: ColorScale, options: ColorLegendOptions = {}): ColorLegend {
+  return new ColorLegend(scale, options)
+}
+
+/**
+ * This function returns the legend of the bubble sizes (see {@link SizeLegend}.)
+ * @param scale Scale mapping the values to the radius of the circle.
+ * @param values Values shown in the legend.
+ * @param options
+ */
+export function sizeLegend(
+  scale: (v: number) => number,
+  values: number[],
+  options: SizeLegendOptions = {}
+): SizeLegend {
+  return new SizeLegend(scale, values, options)
+}
@@ -1,8 +1,19 @@
 'use strict'
 
-import { preloader, AssetsObject, assetList } from './assets'
-import { round, floor, abs, Vector } from './math'
+import { preloader, AssetsObject, assetList, revokeObjectURLs } from './assets'
+import { round, floor, Vector } from './math'
 import { setFont } from './typography'
+import { Pointers } from './pointer'
+import { Tweens } from './tween'
+import { Layer } from './layers'
+import { env } from './env'
+
+/**
+ * Function in which the input handlers of {@link Keyboard}, {@link Mouse} and {@link Pointers}
+ * are executed. The {@link DVAInstance} uses it to run the user callbacks with its own state,
+ * so the global functions draw on the instance's canvas.
+ */
+export type InputScope = (fn: () => void) => void
 
 /**
  * The `Keyboard` class is used for user interaction with the keyboard.
@@ -72,7 +83,11 @@ export class Keyboard {
    */
   public ctrlIsPressed: boolean
   /**
-   * Returns currently pressed key or `null` if no key is pressed.
+   * Returns `true` if *Meta* (*Cmd* on macOS, *Windows* key on Windows) is pressed.
+   */
+  public metaIsPressed: boolean
+  /**
+   * Returns the most recently pressed key, which is still held, or `null` if no key is pressed.
    */
   public keyPressed: string | null
   /**
@@ -84,44 +99,270 @@ export class Keyboard {
    */
   public keyUp: ((key: string) => void) | null
   private _canvas: HTMLCanvasElement
+  private _scope: InputScope
+  private _keys: Map<string, string>
+  private _bindings: KeyBinding[]
 
   /**
    *
    * @param canvas HTML5 Canvas element with the visualization.
+   * @param scope Function in which the event handlers are executed (see {@link InputScope}.)
    */
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, scope: InputScope = (fn) => fn()) {
     this._canvas = canvas
+    this._scope = scope
     this.keyIsPressed = false
     this.altIsPressed = false
     this.shiftIsPressed = false
     this.ctrlIsPressed = false
+    this.metaIsPressed = false
     this.keyPressed = null
     this.keyDown = null
     this.keyUp = null
+    this._keys = new Map()
+    this._bindings = []
     this._canvas.tabIndex = 1 // to make it focusable
-    this._canvas.addEventListener('keydown', (e: KeyboardEvent) => {
+    this._canvas.addEventListener('keydown', this._onKeyDown)
+    this._canvas.addEventListener('keyup', this._onKeyUp)
+    this._canvas.addEventListener('blur', this._onBlur)
+  }
+
+  private _onKeyDown = (e: KeyboardEvent) =>
+    this._scope(() => {
       this.keyIsPressed = true
       if (e.key === 'Alt') this.altIsPressed = true
       if (e.key === 'Shift') this.shiftIsPressed = true
       if (e.key === 'Control') this.ctrlIsPressed = true
+      if (e.key === 'Meta') this.metaIsPressed = true
+      // the keys are tracked by the physical key, because the produced character can change
+      // before the key is released (i.e. Shift+1 is pressed as '!', and released as '1')
+      this._keys.set(e.code || normalizeKey(e.key), e.key)
       this.keyPressed = e.key
+      for (const b of this._bindings.slice()) {
+        if (b.matches(e) && (b.repeat || !e.repeat)) {
+          if (b.preventDefault) e.preventDefault()
+          b.callback(e)
+        }
+      }
       if (this.keyDown != null) {
         this.keyDown(e.key)
       }
     })
-    this._canvas.addEventListener('keyup', (e: KeyboardEvent) => {
-      this.keyIsPressed = false
+
+  private _onKeyUp = (e: KeyboardEvent) =>
+    this._scope(() => {
       if (e.key === 'Alt') this.altIsPressed = false
       if (e.key === 'Shift') this.shiftIsPressed = false
       if (e.key === 'Control') this.ctrlIsPressed = false
-      this.keyPressed = null
+      if (e.key === 'Meta') {
+        // browsers do not report keyup of the other keys released while Meta is held
+        this._releaseAll()
+      }
+      this._keys.delete(e.code || normalizeKey(e.key))
+      this._updatePressed()
       if (this.keyUp != null) {
         this.keyUp(e.key)
       }
     })
+
+  private _onBlur = () => {
+    // keyup is not delivered, when the canvas loses focus
+    this._releaseAll()
+    this._updatePressed()
+  }
+
+  private _releaseAll() {
+    this._keys.clear()
+    this.altIsPressed = false
+    this.shiftIsPressed = false
+    this.ctrlIsPressed = false
+    this.metaIsPressed = false
+  }
+
+  private _updatePressed() {
+    const held = Array.from(this._keys.values())
+    this.keyIsPressed = held.length > 0
+    this.keyPressed = held.length > 0 ? held[held.length - 1] : null
+  }
+
+  /**
+   * Returns `true` if the given key is currently held.
+   * Letters are case-insensitive, i.e. `isDown('a')` is `true` also when *Shift* is pressed.
+   * @param key Key name as reported by `KeyboardEvent.key` (i.e. `'ArrowLeft'`, `'a'`, `' '`.)
+   */
+  isDown(key: string): boolean {
+    const k = normalizeKey(key)
+    const held = Array.from(this._keys)
+    if (held.some(([, v]) => normalizeKey(v) === k)) return true
+    // the digits and letters are found also when Shift or Alt produce another character (i.e. '!'),
+    // the layout of the plain characters is respected, so 'a' is not found for Q on AZERTY
+    return held.some(
+      ([code, v]) => isModifiedChar(v) && (code === `Key${k.toUpperCase()}` || code === `Digit${k}`)
+    )
+  }
+
+  /**
+   * Returns all the currently held keys.
+   */
+  get keysDown(): string[] {
+    return Array.from(this._keys.values())
+  }
+
+  /**
+   * Binds a function to the key combination. The combination consists of the modifiers
+   * (`ctrl`, `alt`, `shift`, `meta` or `mod` - *Cmd* on macOS and *Ctrl* elsewhere) and the key,
+   * joined with `+`, i.e. `'ctrl+z'`, `'shift+ArrowLeft'`, `'r'`.
+   * The modifiers have to match exactly, so `'z'` is not triggered by *Ctrl+Z*.
+   *
+   * ```typescript
+   * keyboard.bind('mod+z', () => undo())
+   * keyboard.bind('+', () => zoomIn(), { repeat: true })
+   * ```
+   * @param combo Key combination.
+   * @param callback Function called when the combination is pressed.
+   * @param options Binding options.
+   */
+  bind(combo: string, callback: (e: KeyboardEvent) => void, options: KeyBindingOptions = {}): void {
+    this._bindings.push(new KeyBinding(combo, callback, options))
+  }
+
+  /**
+   * Removes the key binding. If `callback` is not provided, all the functions bound
+   * to the combination are removed.
+   * @param combo Key combination.
+   * @param callback Function to be removed.
+   */
+  unbind(combo: string, callback?: (e: KeyboardEvent) => void): void {
+    const target = new KeyBinding(combo, () => {}, {})
+    this._bindings = this._bindings.filter(
+      (b) => !(b.equals(target) && (callback === undefined || b.callback === callback))
+    )
+  }
+
+  /**
+   * Removes all the event listeners attached to the canvas.
+   */
+  dispose(): void {
+    this._canvas.removeEventListener('keydown', this._onKeyDown)
+    this._canvas.removeEventListener('keyup', this._onKeyUp)
+    this._canvas.removeEventListener('blur', this._onBlur)
+    this._bindings = []
+    this._keys.clear()
   }
 }
 
+/**
+ * Options of the key binding (see {@link Keyboard.bind}.)
+ */
+export interface KeyBindingOptions {
+  /**
+   * If `true`, the function is called repeatedly while the key is held. The default value is `false`.
+   */
+  repeat?: boolean
+  /**
+   * If `true` (default value), the default browser action is prevented.
+   */
+  preventDefault?: boolean
+}
+
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key
+}
+
+// single character, which is not a plain letter or digit, i.e. produced with Shift or Alt
+function isModifiedChar(key: string): boolean {
+  return key.length === 1 && !/^[a-z0-9]$/i.test(key)
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+class KeyBinding {
+  public key: string
+  public ctrl: boolean
+  public alt: boolean
+  public shift: boolean
+  public meta: boolean
+  public repeat: boolean
+  public preventDefault: boolean
+  public callback: (e: KeyboardEvent) => void
+
+  constructor(combo: string, callback: (e: KeyboardEvent) => void, options: KeyBindingOptions) {
+    const parts = combo.split('+')
+    let key = parts.pop() ?? ''
+    if (key === '') {
+      // the combination ends with the '+' key, i.e. '+' or 'ctrl++'
+      key = '+'
+      parts.pop()
+    }
+    const mods = parts.map((p) => p.trim().toLowerCase())
+    this.key = normalizeKey(key)
+    this.ctrl =
+      mods.includes('ctrl') || mods.includes('control') || (!isMac && mods.includes('mod'))
+    this.alt = mods.includes('alt') || mods.includes('option')
+    this.shift = mods.includes('shift')
+    this.meta =
+      mods.includes('meta') ||
+      mods.includes('cmd') ||
+      mods.includes('command') ||
+      (isMac && mods.includes('mod'))
+    this.repeat = options.repeat ?? false
+    this.preventDefault = options.preventDefault ?? true
+    this.callback = callback
+  }
+
+  matches(e: KeyboardEvent): boolean {
+    if (e.ctrlKey !== this.ctrl || e.altKey !== this.alt || e.metaKey !== this.meta) return false
+    const key = normalizeKey(e.key)
+    if (key === this.key) {
+      // shift changes the produced character (i.e. '+' or '?'), so it is checked only for the other keys
+      return this.key.length > 1 || /[a-z0-9]/.test(this.key) ? e.shiftKey === this.shift : true
+    }
+    // with Alt or Shift the key may produce another character, so the physical key is checked too,
+    // but not for the plain letters and digits, which are matched according to the keyboard layout
+    return (
+      isModifiedChar(e.key) &&
+      e.shiftKey === this.shift &&
+      (e.code === `Key${this.key.toUpperCase()}` || e.code === `Digit${this.key}`)
+    )
+  }
+
+  equals(b: KeyBinding): boolean {
+    return (
+      this.key === b.key &&
+      this.ctrl === b.ctrl &&
+      this.alt === b.alt &&
+      this.shift === b.shift &&
+      this.meta === b.meta
+    )
+  }
+}
+
+/**
+ * Information about the mouse dragging, passed to the {@link Mouse} drag callbacks.
+ */
+export interface MouseDrag {
+  /**
+   * Position at which the button was pressed.
+   */
+  origin: Vector
+  /**
+   * Current position (it can be outside the canvas.)
+   */
+  pos: Vector
+  /**
+   * Movement since the button was pressed.
+   */
+  delta: Vector
+  /**
+   * Movement since the previous drag event.
+   */
+  movement: Vector
+  /**
+   * Button used for dragging.
+   */
+  button: number
+}
+
 /**
  * The `Mouse` class is used for user interaction with the mouse.
  * There is always one instance created for the specific canvas,
@@ -130,6 +371,7 @@ export class Keyboard {
  */
 export class Mouse {
   private _canvas: HTMLCanvasElement
+  private _scope: InputScope
   private _x: number
   private _y: number
   private _px: number
@@ -144,6 +386,19 @@ export class Mouse {
    *  Returns button number.
    */
   public button: number | null
+  /**
+   * Returns `true` if the mouse is being dragged.
+   */
+  public isDragging: boolean
+  /**
+   * Distance in pixels the mouse has to move with the pressed button, before the dragging starts.
+   * Shorter movements are treated as a click. The default value is 3.
+   */
+  public dragThreshold: number
+  private _dragOrigin: Vector
+  private _dragLast: Vector
+  private _dragButton: number
+  private _suppressClick: boolean
   /**
    * This function may be defined by user
    */
@@ -172,13 +427,31 @@ export class Mouse {
    * This function may be defined by user
    */
   public enter: (() => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public dragStart: ((d: MouseDrag) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public drag: ((d: MouseDrag) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public dragEnd: ((d: MouseDrag) => void) | null
   /**
    * This function may be defined by user
    */
   public leave: (() => void) | null
 
-  constructor(canvas: HTMLCanvasElement) {
+  /**
+   *
+   * @param canvas HTML5 Canvas element with the visualization.
+   * @param scope Function in which the event handlers are executed (see {@link InputScope}.)
+   */
+  constructor(canvas: HTMLCanvasElement, scope: InputScope = (fn) => fn()) {
     this._canvas = canvas
+    this._scope = scope
     this._x = 0
     this._y = 0
     this._px = 0
@@ -188,6 +461,12 @@ export class Mouse {
     this._ppos = new Vector(0, 0)
     this.isPressed = false
     this.button = null
+    this.isDragging = false
+    this.dragThreshold = 3
+    this._dragOrigin = new Vector(0, 0)
+    this._dragLast = new Vector(0, 0)
+    this._dragButton = 0
+    this._suppressClick = false
     this.wheel = null
     this.down = null
     this.up = null
@@ -196,63 +475,146 @@ export class Mouse {
     this.move = null
     this.enter = null
     this.leave = null
+    this.dragStart = null
+    this.drag = null
+    this.dragEnd = null
+
+    this._canvas.addEventListener('pointermove', this._onMove)
+    this._canvas.addEventListener('wheel', this._onWheel)
+    this._canvas.addEventListener('pointerdown', this._onDown, false)
+    this._canvas.addEventListener('pointerup', this._onUp, false)
+    this._canvas.addEventListener('pointercancel', this._onUp, false)
+    this._canvas.addEventListener('click', this._onClick, false)
+    this._canvas.addEventListener('dblclick', this._onDblClick, false)
+    this._canvas.addEventListener('pointerenter', this._onEnter)
+    this._canvas.addEventListener('pointerleave', this._onLeave)
+  }
+
+  // Pointer events are used, so the mouse works also with the touch screens and pens.
+  // Only the primary pointer is taken into account - all the pointers are available in `pointers`.
 
-    this._canvas.addEventListener('mousemove', (e: MouseEvent) => {
-      this._updateMousePos(canvas, e)
+  private _onMove = (e: PointerEvent) =>
+    this._scope(() => {
+      if (!e.isPrimary) return
+      this._updateMousePos(this._canvas, e)
       if (this.move) this.move()
+      if (this.isPressed) this._updateDrag(e)
     })
-    this._canvas.addEventListener('wheel', (e: WheelEvent) => {
-      this._updateMousePos(canvas, e)
+
+  private _onWheel = (e: WheelEvent) =>
+    this._scope(() => {
+      this._updateMousePos(this._canvas, e)
       if (this.wheel != null) {
         this.wheel(e)
       }
     })
-    this._canvas.addEventListener(
-      'mousedown',
-      (e: MouseEvent) => {
-        this.isPressed = true
-        this.button = e.button
-        if (this.down != null) {
-          this.down(e)
-        }
-      },
-      false
-    )
-    this._canvas.addEventListener(
-      'mouseup',
-      (e: MouseEvent) => {
-        this.isPressed = false
-        this.button = null
-        if (this.up != null) {
-          this.up(e)
-        }
-      },
-      false
-    )
-    this._canvas.addEventListener(
-      'click',
-      (e: MouseEvent) => {
-        if (this.click != null) {
-          this.click(e)
-        }
-      },
-      false
-    )
-    this._canvas.addEventListener(
-      'dblclick',
-      (e: MouseEvent) => {
-        if (this.dblClick != null) {
-          this.dblClick(e)
-        }
-      },
-      false
-    )
-    this._canvas.addEventListener('mouseenter', () => {
+
+  private _onDown = (e: PointerEvent) =>
+    this._scope(() => {
+      if (!e.isPrimary) return
+      this._updateMousePos(this._canvas, e)
+      this.isPressed = true
+      this.button = e.button
+      this._dragOrigin = this._canvasPos(e)
+      this._dragLast = this._dragOrigin.copy()
+      this._dragButton = e.button
+      this._suppressClick = false
+      // the pointer capture keeps the events coming, when the pointer leaves the canvas
+      if (this._canvas.setPointerCapture) this._canvas.setPointerCapture(e.pointerId)
+      if (this.down != null) {
+        this.down(e)
+      }
+    })
+
+  private _onUp = (e: PointerEvent) =>
+    this._scope(() => {
+      if (!e.isPrimary) return
+      this.isPressed = false
+      this.button = null
+      if (this._canvas.hasPointerCapture && this._canvas.hasPointerCapture(e.pointerId)) {
+        this._canvas.releasePointerCapture(e.pointerId)
+      }
+      if (this.up != null) {
+        this.up(e)
+      }
+      if (this.isDragging) {
+        this.isDragging = false
+        this._suppressClick = true
+        if (this.dragEnd != null) this.dragEnd(this._dragInfo(this._canvasPos(e)))
+      }
+    })
+
+  private _updateDrag(e: PointerEvent) {
+    const pos = this._canvasPos(e)
+    if (!this.isDragging) {
+      if (pos.sub(this._dragOrigin).magnitude <= this.dragThreshold) return
+      this.isDragging = true
+      if (this.dragStart != null) this.dragStart(this._dragInfo(pos))
+    } else if (this.drag != null) {
+      this.drag(this._dragInfo(pos))
+    }
+    this._dragLast = pos
+  }
+
+  private _dragInfo(pos: Vector): MouseDrag {
+    return {
+      origin: this._dragOrigin.copy(),
+      pos: pos,
+      delta: pos.sub(this._dragOrigin),
+      movement: pos.sub(this._dragLast),
+      button: this._dragButton,
+    }
+  }
+
+  private _canvasPos(e: MouseEvent): Vector {
+    const bbox = this._canvas.getBoundingClientRect()
+    return new Vector(e.clientX - bbox.left, e.clientY - bbox.top)
+  }
+
+  private _onClick = (e: MouseEvent) =>
+    this._scope(() => {
+      if (this._suppressClick) {
+        // the click that finishes dragging is not reported
+        this._suppressClick = false
+        return
+      }
+      if (this.click != null) {
+        this.click(e)
+      }
+    })
+
+  private _onDblClick = (e: MouseEvent) =>
+    this._scope(() => {
+      if (this.dblClick != null) {
+        this.dblClick(e)
+      }
+    })
+
+  private _onEnter = (e: PointerEvent) =>
+    this._scope(() => {
+      if (!e.isPrimary) return
       if (typeof this.enter === 'function') this.enter()
     })
-    this._canvas.addEventListener('mouseleave', () => {
+
+  private _onLeave = (e: PointerEvent) =>
+    this._scope(() => {
+      if (!e.isPrimary) return
       if (typeof this.leave === 'function') this.leave()
     })
+
+  /**
+   * Removes all the event listeners attached to the canvas.
+   */
+  dispose(): void {
+    this._canvas.removeEventListener('pointermove', this._onMove)
+    this._canvas.removeEventListener('wheel', this._onWheel)
+    this._canvas.removeEventListener('pointerdown', this._onDown, false)
+    this._canvas.removeEventListener('pointerup', this._onUp, false)
+    this._canvas.removeEventListener('pointercancel', this._onUp, false)
+    this._canvas.removeEventListener('click', this._onClick, false)
+    this._canvas.removeEventListener('dblclick', this._onDblClick, false)
+    this._canvas.removeEventListener('pointerenter', this._onEnter)
+    this._canvas.removeEventListener('pointerleave', this._onLeave)
   }
 
   private _updateMousePos(canvas: HTMLCanvasElement, e: MouseEvent) {
@@ -260,20 +622,20 @@ export class Mouse {
     this._py = this._y
     this._ppos.set(this._px, this._py)
     const bbox = canvas.getBoundingClientRect()
-    this._x = abs(round(e.clientX - bbox.left))
-    this._y = abs(round(e.clientY - bbox.top))
+    this._x = round(e.clientX - bbox.left)
+    this._y = round(e.clientY - bbox.top)
     this._pos.set(this._x, this._y)
   }
 
   /**
-   * Current mouse `X` position.
+   * Current mouse `X` position. While dragging, it can be outside the canvas (i.e. negative.)
    */
   get x() {
     return this._x
   }
 
   /**
-   * Current mouse `Y` position.
+   * Current mouse `Y` position. While dragging, it can be outside the canvas (i.e. negative.)
    */
   get y() {
     return this._y
@@ -320,6 +682,7 @@ export class Mouse {
  *     mouse,
  *     randomInt,
  *     resizeCanvas,
+ *     round,
  *     text
  * } from 'main'
  *
@@ -335,8 +698,8 @@ export class Mouse {
  *     const action = (animation.isAnimating) ? 'stop' : 'start'
  *     clear()
  *     text(`Click inside canvas to ${action} animation.`, 20, 30)
- *     text(`current FPS: ${animation.fps}`, 20, height / 2 + 5)
- *     text(`Current Frame: ${animation.currentFrame}`, 20, height - 20)
+ *     text(`target FPS: ${animation.fps}, measured FPS: ${round(animation.measuredFps)}`, 20, height / 2 + 5)
+ *     text(`Current Frame: ${animation.currentFrame}, time: ${round(animation.time)} ms`, 20, height - 20)
  * }
  *
  * function events() {
@@ -354,9 +717,14 @@ export class Mouse {
 export class AnimationCtrl {
   private _fps: number
   private _delay: number
-  private _time: number | null
-  private readonly _step: (x: number) => void
+  private _lastTimestamp: number | null
+  private _lastRender: number | null
+  private _acc: number
+  private _sinceRender: number
   private _reqAF: number
+  private _captureDelay: number
+  private _beforeCapture: [number, number, number, boolean, Tweens, () => void] | null
+  private readonly _callback: () => void
   /**
    * Animation counter (contains the current frame number.)
    */
@@ -365,6 +733,45 @@ export class AnimationCtrl {
    * Returns `true` if the animation is running. Otherwise, returns `false`.
    */
   public isAnimating: boolean
+  /**
+   * Returns `true` if the animation is paused with the {@link pause} method.
+   */
+  public isPaused: boolean
+  /**
+   * Returns `true` between {@link beginCapture} and {@link endCapture}.
+   */
+  public isCapturing: boolean
+  /**
+   * Animation time in milliseconds. It does not advance, when the animation is stopped or paused.
+   */
+  public time: number
+  /**
+   * Time in milliseconds between the current and the previous frame.
+   */
+  public deltaTime: number
+  /**
+   * Frame rate measured over the last frames.
+   */
+  public measuredFps: number
+  /**
+   * If set to `true`, every frame advances the {@link time} by exactly `1000 / fps` milliseconds,
+   * regardless of the real time elapsed. If the browser can not keep up,
+   * the frames are caught up or dropped (see {@link catchUp}.)
+   */
+  public fixedStep: boolean
+  /**
+   * Used only in the {@link fixedStep} mode. If `true` (default value), the missed frames are drawn
+   * one after another to catch up with the real time. Otherwise, they are dropped, and the time jumps.
+   */
+  public catchUp: boolean
+  /**
+   * Maximum number of frames drawn at once while catching up. The remaining time is dropped.
+   */
+  public maxCatchUp: number
+  /**
+   * Tweens driven by this animation (see {@link tween}.)
+   */
+  public tweens: Tweens
 
   /**
    *
@@ -374,33 +781,83 @@ export class AnimationCtrl {
   constructor(callback: () => void) {
     this._fps = 60
     this._delay = 1000 / this._fps
-    this.currentFrame = 0
-    this._time = null
+    this._lastTimestamp = null
+    this._lastRender = null
+    this._acc = 0
+    this._sinceRender = 0
     this._reqAF = 0
+    this._captureDelay = this._delay
+    this._beforeCapture = null
+    this._callback = callback
+    this.currentFrame = 0
+    this.isAnimating = false
+    this.isPaused = false
+    this.isCapturing = false
+    this.time = 0
+    this.deltaTime = 0
+    this.measuredFps = 0
+    this.fixedStep = false
+    this.catchUp = true
+    this.maxCatchUp = 5
+    this.tweens = new Tweens()
+  }
 
-    this._step = (timestamp: number) => {
-      if (this._time == null) this._time = timestamp
-      const seg = floor((timestamp - this._time) / this._delay)
-      if (seg > this.currentFrame) {
-        // this.currentFrame = seg;
-        this.currentFrame++
-        callback()
+  private _step = (timestamp: number) => {
+    // the first frame after (re)start is drawn immediately, and the pause is not counted in
+    const elapsed = this._lastTimestamp == null ? this._delay : timestamp - this._lastTimestamp
+    this._lastTimestamp = timestamp
+    this._acc += elapsed
+    this._sinceRender += elapsed
+    let steps = 0
+    // 10% tolerance, otherwise the frames are skipped due to the jitter of the timestamps
+    while (this._acc >= this._delay * 0.9) {
+      this._acc -= this._delay
+      steps++
+    }
+    if (steps > 0) {
+      if (this._lastRender != null && timestamp > this._lastRender) {
+        const fps = 1000 / (timestamp - this._lastRender)
+        this.measuredFps = this.measuredFps === 0 ? fps : this.measuredFps * 0.9 + fps * 0.1
       }
-      if (this.isAnimating) {
-        this._reqAF = requestAnimationFrame(this._step)
+      this._lastRender = timestamp
+      if (!this.fixedStep) {
+        this._advance(this._sinceRender, 1)
+        this._callback()
+      } else if (this.catchUp) {
+        for (let i = 0; i < Math.min(steps, this.maxCatchUp) && this.isAnimating; i++) {
+          this._advance(this._delay, 1)
+          this._callback()
+        }
+      } else {
+        this._advance(this._delay * steps, steps)
+        this._callback()
       }
+      this._sinceRender = 0
     }
+    if (this.isAnimating) {
+      this._reqAF = env.requestAnimationFrame(this._step)
+    }
+  }
 
-    this.isAnimating = false
+  private _advance(dt: number, frames: number): void {
+    this.deltaTime = dt
+    this.time += dt
+    this.currentFrame += frames
+    this.tweens.update(this.time)
   }
 
   /**
    * Starts the animation.
    */
   start(): void {
-    if (!this.isAnimating) {
+    if (!this.isAnimating && !this.isCapturing) {
       this.isAnimating = true
-      this._reqAF = requestAnimationFrame(this._step)
+      this.isPaused = false
+      this._lastTimestamp = null
+      this._lastRender = null
+      this._acc = 0
+      this._sinceRender = 0
+      this._reqAF = env.requestAnimationFrame(this._step)
     }
   }
 
@@ -409,33 +866,254 @@ export class AnimationCtrl {
    */
   stop(): void {
     if (this.isAnimating) {
-      this._reqAF = requestAnimationFrame(this._step)
-      cancelAnimationFrame(this._reqAF)
+      env.cancelAnimationFrame(this._reqAF)
       this.isAnimating = false
     }
   }
 
   /**
-   * Used for setting the new animation rate or reading the current one. The default value is 60 fps.
+   * Pauses the animation. The {@link time} is kept, and the animation continues
+   * from the same moment after calling {@link resume}.
    */
-  public get fps() {
+  pause(): void {
     if (this.isAnimating) {
-      return this._fps
-    } else {
-      return 0
+      this.stop()
+      this.isPaused = true
+    }
+  }
+
+  /**
+   * Resumes the animation paused with the {@link pause} method.
+   */
+  resume(): void {
+    if (this.isPaused) this.start()
+  }
+
+  /**
+   * Advances the animation by a single frame and draws it. It can be used for the deterministic
+   * rendering, i.e. when the animation is stopped.
+   * @param dt Time step in milliseconds (default `1000 / fps`.)
+   */
+  step(dt: number = this._delay): void {
+    this._advance(dt, 1)
+    this._callback()
+  }
+
+  /**
+   * Sets the animation time and draws the frame for this moment.
+   * The {@link currentFrame} is set according to the target frame rate.
+   * @param t Time in milliseconds.
+   */
+  setTime(t: number): void {
+    this.deltaTime = t - this.time
+    this.time = t
+    this.currentFrame = floor(t / this._delay)
+    this.tweens.update(this.time)
+    this._callback()
+  }
+
+  /**
+   * Sets the animation time and the frame counter back to `0`.
+   */
+  reset(): void {
+    this.time = 0
+    this.deltaTime = 0
+    this.currentFrame = 0
+  }
+
+  /**
+   * Switches the animation into the capture mode. The animation loop is stopped,
+   * and the time is set to the given moment. Then every {@link captureFrame} advances it
+   * by exactly `1000 / fps` milliseconds, so the captured frames do not depend on the real time.
+   * The tweens are advanced as copies, without calling their `update` and `complete` functions,
+   * so the running ones are not completed by the capture, and the tweens created during
+   * the capture are discarded. The copies are moved to the capture clock, so the running tweens
+   * continue from their current progress at the first frame.
+   * The real time animation is restored with {@link endCapture}.
+   * @param fps Frame rate of the capture.
+   * @param startTime Time of the first frame in milliseconds (default `0`.)
+   */
+  beginCapture(fps: number, startTime: number = 0): void {
+    if (this.isCapturing) return
+    this._beforeCapture = [
+      this.time,
+      this.deltaTime,
+      this.currentFrame,
+      this.isAnimating,
+      this.tweens,
+      this.tweens.saveTargets(),
+    ]
+    this.stop()
+    this.tweens = this.tweens.clone(startTime - this.time)
+    this.isCapturing = true
+    this._captureDelay = 1000 / fps
+    this.time = startTime
+    this.deltaTime = 0
+    this.currentFrame = 0
+    this.tweens.update(this.time)
+  }
+
+  /**
+   * Advances the animation to the next captured frame (see {@link beginCapture}.)
+   * The frame is not drawn, it is up to the caller where to render it.
+   */
+  captureFrame(): void {
+    if (this.isCapturing) this._advance(this._captureDelay, 1)
+  }
+
+  /**
+   * Ends the capture mode. The time, the frame counter and the objects animated by the tweens
+   * are set back to the state before the capture, and the animation continues if it was running.
+   */
+  endCapture(): void {
+    if (!this.isCapturing || !this._beforeCapture) return
+    const [time, deltaTime, currentFrame, animating, tweens, restoreTargets] = this._beforeCapture
+    this._beforeCapture = null
+    this.isCapturing = false
+    this.time = time
+    this.deltaTime = deltaTime
+    this.currentFrame = currentFrame
+    this.tweens = tweens
+    restoreTargets()
+    this.tweens.update(this.time)
+    if (animating) this.start()
+  }
+
+  /**
+   * Renders the given number of frames deterministically, one after another, without waiting
+   * for the real time (see {@link beginCapture}.) The `render` function is called for every frame,
+   * with the {@link time} and {@link currentFrame} already set.
+   *
+   * ```typescript
+   * const frames: string[] = []
+   * animation.capture(60, 30, () => frames.push(exportImageURL()))
+   * ```
+   * @param frames Number of frames.
+   * @param fps Frame rate of the capture.
+   * @param render Function rendering the frame.
+   * @param startTime Time of the first frame in milliseconds (default `0`.)
+   */
+  capture(frames: number, fps: number, render: (frame: number) => void, startTime = 0): void {
+    this.beginCapture(fps, startTime)
+    try {
+      for (let i = 0; i < frames; i++) {
+        if (i > 0) this.captureFrame()
+        render(i)
+      }
+    } finally {
+      this.endCapture()
     }
   }
 
+  /**
+   * Used for setting the target animation rate or reading it. The default value is 60 fps.
+   * The real frame rate is available as {@link measuredFps}.
+   */
+  public get fps() {
+    return this._fps
+  }
+
   public set fps(v: number) {
     this._fps = v
     this._delay = 1000 / this._fps
-    this.currentFrame = 0
-    this._time = null
+    this._acc = 0
   }
 }
 
 export type LengthUnit = 'px' | 'pt' | 'pc' | 'in' | 'Q' | 'mm' | 'cm'
 
+const styleFields = [
+  'withFill',
+  'withStroke',
+  'currentFill',
+  'currentStroke',
+  'fontStyle',
+  'fontWeight',
+  'fontSize',
+  'fontUnit',
+  'fontFamily',
+  'lineHeight',
+] as const
+
+/**
+ * Fill, stroke and font settings of the {@link DVA}.
+ */
+export type DVAStyle = Pick<DVA, (typeof styleFields)[number]>
+
+const inputEvents = [
+  'pointerdown',
+  'pointermove',
+  'pointerup',
+  'pointercancel',
+  'pointerleave',
+  'wheel',
+  'click',
+  'dblclick',
+  'keydown',
+  'keyup',
+]
+
+/**
+ * Shape registered for the hit testing (see {@link hit}.)
+ */
+export interface HitRegion {
+  /**
+   * Data attached to the shape.
+   */
+  data: unknown
+  /**
+   * Recorded path of the shape.
+   */
+  path: Path2D
+  /**
+   * Transformation of the canvas at the time the shape was drawn.
+   */
+  transform: DOMMatrix
+  /**
+   * `true` if the shape was filled.
+   */
+  fill: boolean
+  /**
+   * `true` if the shape was stroked.
+   */
+  stroke: boolean
+  /**
+   * Stroke width of the shape.
+   */
+  lineWidth: number
+  /**
+   * Number of the pixels per CSS pixel of the render target the shape was drawn to.
+   */
+  pxRatio: number
+}
+
+const pathMethods = [
+  'moveTo',
+  'lineTo',
+  'arc',
+  'arcTo',
+  'ellipse',
+  'rect',
+  'quadraticCurveTo',
+  'bezierCurveTo',
+  'closePath',
+]
+
+function teePath(a: CanvasPath, b: CanvasPath): CanvasPath {
+  // passes all the path commands to both targets
+  type Commands = Record<string, (...args: unknown[]) => void>
+  const tee: Commands = {}
+  for (const m of pathMethods) {
+    tee[m] = (...args: unknown[]) => {
+      const fa = (a as unknown as Commands)[m]
+      const fb = (b as unknown as Commands)[m]
+      fa.apply(a, args)
+      fb.apply(b, args)
+    }
+  }
+  return tee as unknown as CanvasPath
+}
+
 /**
  * The `DVA` class is used to control everything on the canvas 'behind the scene'.
  * An instance of this class is always automatically created, when {@link createCanvas}
@@ -458,6 +1136,14 @@ export class DVA {
    * If set to `true` the visualization is a still image.
    */
   public noLoop: boolean
+  /**
+   * If set to `true` the visualization is redrawn only on demand (see {@link redrawOnDemand}.)
+   */
+  public onDemand: boolean
+  /**
+   * Set to `true` when the redraw is requested with the {@link redraw} function.
+   */
+  public redrawPending: boolean
   /**
    * Defines if the shape has a fill property.
    */
@@ -502,12 +1188,59 @@ export class DVA {
    * Defines scale coefficient used for resolution adjustment.
    */
   public scaleCoefficient: number
+  /**
+   * Width of the canvas in pixels.
+   */
+  public width: number
+  /**
+   * Height of the canvas in pixels.
+   */
+  public height: number
+  /**
+   * Function called with the new canvas dimensions before the first draw after resizing
+   * (see {@link responsive}.)
+   */
+  public resized: ((w: number, h: number) => void) | null
+  /**
+   * Set to `true` when the canvas was resized, and the {@link resized} callback is still to be called.
+   */
+  public resizePending: boolean
+  /**
+   * Data attached to the shapes drawn next (see {@link hit}), or `undefined`
+   * if the shapes are not registered for the hit testing.
+   */
+  public hitData: unknown
+  /**
+   * Shapes registered for the hit testing in the current frame, from the bottom to the top.
+   */
+  public hitRegions: HitRegion[]
+  /**
+   * Layers of the visualization (see {@link createLayer}.)
+   */
+  public layers: Layer[]
+  /**
+   * Function drawing the frame, passed to {@link dvaStart}.
+   */
+  public draw: UserFunc
+  /**
+   * Object URLs created for this visualization, i.e. by {@link svg2img}.
+   * They are revoked when the visualization is stopped.
+   */
+  public objectURLs: string[]
+  private _hitPath: Path2D | null
+  private _path: CanvasPath | null
+  private _resizeObserver: ResizeObserver | null
+  private _pxRatioQuery: MediaQueryList | null
+  private _onResize: (() => void) | null
+  private _onInput: (() => void) | null
 
   constructor(canvas: HTMLCanvasElement, noLoop = false) {
     this.canvas = canvas
     this.ctx = this.canvas.getContext('2d')
     this.dpi = 300
     this.noLoop = noLoop
+    this.onDemand = false
+    this.redrawPending = false
     this.withFill = true
     this.withStroke = true
     this.currentFill = '#65a30d'
@@ -519,6 +1252,156 @@ export class DVA {
     this.fontFamily = 'sans-serif'
     this.lineHeight = 1.1
     this.scaleCoefficient = 1
+    this.width = 300
+    this.height = 150
+    this.resized = null
+    this.resizePending = false
+    this.hitData = undefined
+    this.hitRegions = []
+    this.layers = []
+    this.draw = null
+    this.objectURLs = []
+    this._hitPath = null
+    this._path = null
+    this._resizeObserver = null
+    this._pxRatioQuery = null
+    this._onResize = null
+    this._onInput = null
+  }
+
+  /**
+   * Starts watching the size of the canvas container and the device pixel ratio.
+   * The callback is called every time any of them changes.
+   * @param callback
+   */
+  public observeResize(callback: () => void): void {
+    this.unobserveResize()
+    this._onResize = callback
+    this._resizeObserver = new ResizeObserver(() => {
+      if (this._onResize) this._onResize()
+    })
+    this._resizeObserver.observe(this.canvas.parentElement ?? this.canvas)
+    this._watchPxRatio()
+  }
+
+  /**
+   * Stops watching the size of the canvas container and the device pixel ratio.
+   */
+  public unobserveResize(): void {
+    if (this._resizeObserver) this._resizeObserver.disconnect()
+    if (this._pxRatioQuery) this._pxRatioQuery.removeEventListener('change', this._onPxRatio)
+    this._resizeObserver = null
+    this._pxRatioQuery = null
+    this._onResize = null
+  }
+
+  /**
+   * Starts watching the mouse, touch and keyboard input on the canvas.
+   * The callback is called on every input event.
+   * @param callback
+   */
+  public observeInput(callback: () => void): void {
+    this.unobserveInput()
+    this._onInput = callback
+    for (const type of inputEvents) this.canvas.addEventListener(type, this._handleInput)
+  }
+
+  /**
+   * Stops watching the input on the canvas.
+   */
+  public unobserveInput(): void {
+    for (const type of inputEvents) this.canvas.removeEventListener(type, this._handleInput)
+    this._onInput = null
+  }
+
+  private _handleInput = () => {
+    if (this._onInput) this._onInput()
+  }
+
+  private _watchPxRatio(): void {
+    if (this._pxRatioQuery) this._pxRatioQuery.removeEventListener('change', this._onPxRatio)
+    this._pxRatioQuery = window.matchMedia(`(resolution: ${env.devicePixelRatio()}dppx)`)
+    this._pxRatioQuery.addEventListener('change', this._onPxRatio)
+  }
+
+  private _onPxRatio = () => {
+    // the media query matches only the current ratio, so it has to be renewed after every change
+    this._watchPxRatio()
+    if (this._onResize) this._onResize()
+  }
+
+  /**
+   * Begins a new path. If the shapes are registered for the hit testing,
+   * the path is recorded as well.
+   */
+  public beginPath(): void {
+    if (!this.ctx) return
+    this.ctx.beginPath()
+    const hitPath = this.hitData !== undefined ? env.createPath() : null
+    if (hitPath) {
+      this._hitPath = hitPath
+      this._path = teePath(this.ctx, hitPath)
+    } else {
+      this._hitPath = null
+      this._path = null
+    }
+  }
+
+  /**
+   * Returns the target of the path commands: the context, or the object passing the commands
+   * also to the recorded path, if the shapes are registered for the hit testing.
+   */
+  get path(): CanvasPath {
+    return this._path ?? (this.ctx as CanvasPath)
+  }
+
+  /**
+   * Returns the number of the pixels per CSS pixel of the given render target,
+   * i.e. of the exported image inside {@link renderTo}.
+   * @param ctx Render target (default - the current one.)
+   */
+  public pxRatio(ctx: CanvasRenderingContext2D | null = this.ctx): number {
+    // the virtual contexts (i.e. SVGContext) have no canvas and are drawn in CSS pixels
+    return ctx && ctx.canvas ? ctx.canvas.width / (this.width || 1) : 1
+  }
+
+  /**
+   * Registers the recorded path for the hit testing.
+   * @param fill `true` if the shape is filled.
+   * @param stroke `true` if the shape is stroked.
+   */
+  public registerHit(fill: boolean = this.withFill, stroke: boolean = this.withStroke): void {
+    if (this._hitPath && this.ctx) {
+      this.hitRegions.push({
+        data: this.hitData,
+        path: this._hitPath,
+        transform: this.ctx.getTransform(),
+        fill: fill,
+        stroke: stroke,
+        lineWidth: this.ctx.lineWidth,
+        pxRatio: this.pxRatio(),
+      })
+    }
+    this._hitPath = null
+    this._path = null
+  }
+
+  /**
+   * Returns the current fill, stroke and font settings. Unlike the canvas context properties,
+   * they are not saved with the {@link save} function.
+   */
+  public getStyle(): DVAStyle {
+    const style = {} as Record<string, unknown>
+    for (const f of styleFields) style[f] = this[f]
+    return style as DVAStyle
+  }
+
+  /**
+   * Restores the fill, stroke and font settings returned by {@link getStyle}.
+   * @param style
+   */
+  public setStyle(style: DVAStyle): void {
+    Object.assign(this, style)
   }
 
   /**
@@ -527,6 +1410,7 @@ export class DVA {
   public commitShape() {
     if (this.withFill && !!this.ctx) this.ctx.fill()
     if (this.withStroke && !!this.ctx) this.ctx.stroke()
+    this.registerHit()
   }
 }
 
@@ -552,6 +1436,11 @@ export let keyboard: Keyboard
  */
 export let mouse: Mouse
 
+/**
+ * A global variable that contains the instance of the {@link Pointers} class.
+ */
+export let pointers: Pointers
+
 /**
  * A global variable that contains the instance of the {@link AnimationCtrl} class.
  */
@@ -567,6 +1456,115 @@ export let assets: AssetsObject<unknown>
  */
 export let dva: DVA
 
+/**
+ * The set of objects which together make up a single visualization.
+ * The global variables ({@link dva}, {@link keyboard}, {@link mouse} and {@link animation})
+ * always point to the currently active state.
+ */
+export interface DVAState {
+  dva: DVA
+  keyboard: Keyboard
+  mouse: Mouse
+  pointers: Pointers
+  animation: AnimationCtrl
+}
+
+/**
+ * This function returns the currently active state.
+ * @ignore
+ */
+export function currentState(): DVAState {
+  return { dva, keyboard, mouse, pointers, animation }
+}
+
+/**
+ * This function makes the given state active, so all the global functions operate on it.
+ * @ignore
+ */
+export function activateState(state: DVAState): void {
+  dva = state.dva
+  keyboard = state.keyboard
+  mouse = state.mouse
+  pointers = state.pointers
+  animation = state.animation
+  if (dva) {
+    width = dva.width
+    height = dva.height
+  }
+}
+
+/**
+ * This function runs `fn` with the given state active and restores the previous one afterwards.
+ * @ignore
+ */
+export function withState<T>(state: DVAState, fn: () => T): T {
+  const prev = currentState()
+  activateState(state)
+  try {
+    return fn()
+  } finally {
+    activateState(prev)
+  }
+}
+
+/**
+ * This function runs `fn` with `width` and `height` temporarily set to the given size,
+ * so the visualization can be laid out for the output of another size (i.e. the exported image.)
+ * The `resized` callback of the {@link responsive} canvas is called before and after `fn`.
+ * @ignore
+ */
+export function withSize<T>(w: number, h: number, fn: () => T): T {
+  const prevW = dva.width
+  const prevH = dva.height
+  const setSize = (sw: number, sh: number) => {
+    dva.width = width = sw
+    dva.height = height = sh
+    if (dva.resized != null) dva.resized(sw, sh)
+  }
+  if (w === prevW && h === prevH) return fn()
+  setSize(w, h)
+  try {
+    return fn()
+  } finally {
+    setSize(prevW, prevH)
+  }
+}
+
+/**
+ * This function runs `fn` with all the drawing functions redirected to another render target,
+ * i.e. the offscreen canvas of the {@link Layer} or the {@link SVGContext}.
+ * The target starts with the current fill, stroke, line and font settings,
+ * and the settings changed inside `fn` are restored afterwards.
+ * @param target Canvas 2D context, or an object implementing its drawing methods.
+ * @param fn
+ * @returns Shapes registered for the hit testing inside `fn`.
+ */
+export function renderTo(target: CanvasRenderingContext2D, fn: () => void): HitRegion[] {
+  const main = dva.ctx
+  const style = dva.getStyle()
+  const hitRegions = dva.hitRegions
+  target.fillStyle = dva.currentFill
+  target.strokeStyle = dva.currentStroke
+  target.font = `${dva.fontStyle} ${dva.fontWeight} ${dva.fontSize}${dva.fontUnit} ${dva.fontFamily}`
+  if (main) {
+    target.lineWidth = main.lineWidth
+    target.lineCap = main.lineCap
+    target.lineJoin = main.lineJoin
+    target.textAlign = main.textAlign
+    target.textBaseline = main.textBaseline
+  }
+  dva.ctx = target
+  dva.hitRegions = []
+  try {
+    fn()
+    return dva.hitRegions
+  } finally {
+    dva.ctx = main
+    dva.hitRegions = hitRegions
+    dva.setStyle(style)
+  }
+}
+
 /**
  * This function changes the cursor type.
  * @param display
@@ -588,19 +1586,50 @@ export function scaleModifier(v: number) {
   }
 }
 
-function setContextDefault(): void {
+/**
+ * @ignore
+ */
+export function setContextDefault(): void {
   if (dva.canvas) {
     dva.ctx = dva.canvas.getContext('2d')
-    let pxRatio = window.devicePixelRatio || 1
+    // resizing the canvas resets the context, so the current state has to be restored
+    const prev = dva.ctx
+      ? {
+          lineWidth: dva.ctx.lineWidth,
+          lineCap: dva.ctx.lineCap,
+          lineJoin: dva.ctx.lineJoin,
+          miterLimit: dva.ctx.miterLimit,
+          lineDash: dva.ctx.getLineDash(),
+          lineDashOffset: dva.ctx.lineDashOffset,
+          textAlign: dva.ctx.textAlign,
+          textBaseline: dva.ctx.textBaseline,
+        }
+      : null
+    let pxRatio = env.devicePixelRatio()
     pxRatio *= dva.scaleCoefficient
-    dva.canvas.width = dva.canvas.clientWidth * pxRatio || 300
-    dva.canvas.height = dva.canvas.clientHeight * pxRatio || 150
-    width = dva.canvas.clientWidth || 300
-    height = dva.canvas.clientHeight || 150
+    // the headless canvas is not laid out, so it keeps the size set by resizeCanvas
+    const w = dva.canvas.clientWidth ?? dva.width
+    const h = dva.canvas.clientHeight ?? dva.height
+    dva.canvas.width = w * pxRatio || 300
+    dva.canvas.height = h * pxRatio || 150
+    dva.width = w || 300
+    dva.height = h || 150
+    width = dva.width
+    height = dva.height
     if (dva.ctx) {
       dva.ctx.scale(pxRatio, pxRatio)
       dva.ctx.fillStyle = dva.currentFill
       dva.ctx.strokeStyle = dva.currentStroke
+      if (prev) {
+        dva.ctx.lineWidth = prev.lineWidth
+        dva.ctx.lineCap = prev.lineCap
+        dva.ctx.lineJoin = prev.lineJoin
+        dva.ctx.miterLimit = prev.miterLimit
+        dva.ctx.setLineDash(prev.lineDash)
+        dva.ctx.lineDashOffset = prev.lineDashOffset
+        dva.ctx.textAlign = prev.textAlign
+        dva.ctx.textBaseline = prev.textBaseline
+      }
       setFont()
     }
   }
@@ -629,10 +1658,19 @@ export type UserFunc = (() => void) | null
  * mouse.move() => void
  * mouse.enter() => void
  * mouse.leave() => void
+ * mouse.dragStart(d: MouseDrag) => void
+ * mouse.drag(d: MouseDrag) => void
+ * mouse.dragEnd(d: MouseDrag) => void
+ * pointers.down(p: PointerInfo) => void
+ * pointers.up(p: PointerInfo) => void
+ * pointers.move(p: PointerInfo) => void
+ * pointers.pinch(g: PinchGesture) => void
+ * pointers.pan(g: PanGesture) => void
  * keyboard.keyDown(key: string) => void
  * keyboard.keyUp(key: string) => void
- * window.onresize() => void
+ * keyboard.bind(combo: string, callback: (e: KeyboardEvent) => void) => void
  * ```
+ * To adjust the canvas to its container automatically, call the {@link responsive} function inside `setup`.
  * @param loadAssets Function defined by user for assets preloading.
  */
 export function dvaStart(
@@ -658,31 +1696,89 @@ export function dvaStart(
   }
 }
 
+/**
+ * This function renders a single frame of the currently active visualization.
+ * @ignore
+ */
+export function drawFrame(draw?: UserFunc): void {
+  renderFrame(draw ?? null)
+  if (dva.noLoop) animation.stop()
+  // in the on-demand mode the animation keeps running only while there is something to animate
+  if (dva.onDemand && !dva.redrawPending && !animation.tweens.active) animation.stop()
+}
+
+/**
+ * This function draws a single frame without the animation loop, i.e. on the {@link headlessCanvas}.
+ * The pending `resized` callback (see {@link responsive}) is called before drawing.
+ * @param draw Function drawing the frame (default - the `draw` function of the visualization.)
+ */
+export function renderFrame(draw: UserFunc = dva.draw): void {
+  if (dva.resizePending) {
+    dva.resizePending = false
+    if (dva.resized != null) dva.resized(width, height)
+  }
+  dva.redrawPending = false
+  dva.hitRegions = []
+  if (draw != undefined) draw()
+}
+
 function lVrun(setup?: UserFunc, draw?: UserFunc, events?: UserFunc) {
   if (animation == undefined) {
-    animation = new AnimationCtrl(() => {
-      if (draw != undefined) draw()
-      if (dva.noLoop) animation.stop()
-    })
+    animation = new AnimationCtrl(() => drawFrame(draw))
   }
+  dva.draw = draw ?? null
   if (typeof setup == 'function') setup()
   if (mouse == undefined) mouse = new Mouse(dva.canvas)
+  if (pointers == undefined) pointers = new Pointers(dva.canvas)
   if (typeof events == 'function') {
     events()
   }
   animation.start()
 }
 
+// canvas created with createCanvas for the global visualization
+let ownCanvas: HTMLCanvasElement | null = null
+
+/**
+ * This function stops the visualization started with {@link dvaStart} and releases its resources.
+ * It cancels the animation, removes all the mouse and keyboard event listeners,
+ * revokes object URLs created for the loaded images, removes the canvas created
+ * with {@link createCanvas} and resets the global variables,
+ * so {@link dvaStart} can be called again, i.e. when the component with the chart is mounted again.
+ */
+export function dvaStop(): void {
+  if (animation) animation.stop()
+  if (dva) dva.unobserveResize()
+  if (dva) dva.unobserveInput()
+  if (mouse) mouse.dispose()
+  if (pointers) pointers.dispose()
+  if (keyboard) keyboard.dispose()
+  if (dva) revokeObjectURLs(dva)
+  revokeObjectURLs()
+  if (ownCanvas && ownCanvas.parentNode) ownCanvas.parentNode.removeChild(ownCanvas)
+  ownCanvas = null
+  assetList.length = 0
+  preloader.reset()
+  assets = {}
+  dva = <DVA>(<unknown>undefined)
+  keyboard = <Keyboard>(<unknown>undefined)
+  mouse = <Mouse>(<unknown>undefined)
+  pointers = <Pointers>(<unknown>undefined)
+  animation = <AnimationCtrl>(<unknown>undefined)
+}
+
 /**
  * This function appends HTML Canvas to the selected DOM element.
  * @param target The canvas parent element.
  * @param id Canvas id attribute.
  */
 export function createCanvas(target: HTMLElement, id?: string): void {
-  const cnv = document.createElement('canvas')
+  const cnv = env.createCanvas(300, 150)
   if (id !== undefined) cnv.id = id
   if (keyboard == undefined) keyboard = new Keyboard(cnv)
   if (dva == undefined) dva = new DVA(cnv)
+  // the canvas is removed by dvaStop
+  if (dva.canvas === cnv) ownCanvas = cnv
   target.appendChild(dva.canvas)
   setContextDefault()
 }
@@ -699,6 +1795,37 @@ export function selectCanvas(id: string): void {
   setContextDefault()
 }
 
+/**
+ * This function creates the canvas, which is not attached to any document, with the
+ * {@link Environment} (see {@link setEnvironment}), and makes it the active canvas.
+ * There is no keyboard and mouse input, and the frames are drawn with {@link renderFrame},
+ * so it can be used outside the browser, i.e. to render the chart images on the server.
+ *
+ * ```typescript
+ * setEnvironment({ createCanvas: (w, h) => createCanvas(w, h) as unknown as HTMLCanvasElement })
+ * const cnv = headlessCanvas(600, 400) as unknown as Canvas
+ * fontSize(14)
+ * renderFrame(() => {
+ *     background('#ffffff')
+ *     xAxis.draw(370)
+ *     yAxis.draw(40)
+ * })
+ * writeFileSync('chart.png', cnv.toBuffer('image/png'))
+ * ```
+ * @param w Width of the canvas.
+ * @param h Height of the canvas.
+ */
+export function headlessCanvas(w: number, h: number): HTMLCanvasElement {
+  // the previous visualization is stopped, so its listeners and input state are not used
+  dvaStop()
+  const cnv = env.createCanvas(w, h)
+  dva = new DVA(cnv)
+  dva.width = w
+  dva.height = h
+  setContextDefault()
+  return cnv
+}
+
 /**
  * This function changes the canvas dimensions.
  * @param w Canvas Width
@@ -706,11 +1833,54 @@ export function selectCanvas(id: string): void {
  * @param canvas Canvas element
  */
 export function resizeCanvas(w: number, h: number, canvas: HTMLCanvasElement = dva.canvas): void {
-  canvas.style.width = `${w}px`
-  canvas.style.height = `${h}px`
+  if (canvas.style) {
+    canvas.style.width = `${w}px`
+    canvas.style.height = `${h}px`
+  } else {
+    dva.width = w
+    dva.height = h
+  }
   setContextDefault()
 }
 
+/**
+ * This function turns on the responsive mode. The canvas takes the size of its parent element
+ * and is adjusted every time the parent is resized or the device pixel ratio changes
+ * (i.e. when the browser window is moved to another display.) The current fill, stroke and font
+ * settings are kept. If the `resized` callback is provided, it is called with the new canvas
+ * dimensions before the next `draw`. Also the still images (see {@link staticDrawing}) are redrawn.
+ *
+ * ```typescript
+ * function setup() {
+ *     createCanvas(document.getElementById('canvas-container')!)
+ *     responsive((w, h) => {
+ *         xScale = linearScale(0, 100, 20, w - 20)
+ *     })
+ * }
+ * ```
+ * @param resized Function called with the new width and height of the canvas.
+ */
+export function responsive(resized?: (w: number, h: number) => void): void {
+  const state = currentState()
+  dva.resized = resized ?? null
+  dva.canvas.style.display = 'block'
+  dva.observeResize(() =>
+    withState(state, () => {
+      const parent = dva.canvas.parentElement
+      if (parent) {
+        const cs = window.getComputedStyle(parent)
+        const w = parent.clientWidth - parseFloat(cs.paddingLeft) - parseFloat(cs.paddingRight)
+        const h = parent.clientHeight - parseFloat(cs.paddingTop) - parseFloat(cs.paddingBottom)
+        dva.canvas.style.width = `${w}px`
+        dva.canvas.style.height = `${h}px`
+      }
+      setContextDefault()
+      dva.resizePending = true
+      if (animation && !animation.isAnimating) animation.start()
+    })
+  )
+}
+
 /* transformation */
 /**
  * This is the implementation of the `CanvasRenderingContext2D.translate()` function.
@@ -768,6 +1938,32 @@ export function staticDrawing(): void {
   dva.noLoop = true
 }
 
+/**
+ * This function turns on the on-demand mode. Instead of redrawing the canvas continuously,
+ * the draw function is executed only when it is needed: after calling {@link redraw},
+ * on the mouse, touch or keyboard input, when the canvas is resized (see {@link responsive})
+ * and as long as there are active tweens (see {@link tween}.) Several requests within
+ * a single frame are drawn once. It saves a lot of CPU on pages with many visualizations,
+ * which are idle most of the time.
+ * This function can be called **only** after canvas is selected or created.
+ */
+export function redrawOnDemand(): void {
+  const state = currentState()
+  dva.onDemand = true
+  dva.observeInput(() => withState(state, redraw))
+}
+
+/**
+ * This function requests the redrawing of the canvas in the next frame.
+ * It is used in the on-demand mode (see {@link redrawOnDemand}), but it also redraws the still image
+ * (see {@link staticDrawing}.)
+ */
+export function redraw(): void {
+  if (!dva) return
+  dva.redrawPending = true
+  if (animation && !animation.isAnimating) animation.start()
+}
+
 /**
  * This function returns the current canvas element.
  */
@@ -0,0 +1,287 @@
+'use strict'
+
+import { dist, Vector } from './math'
+import { InputScope } from './main'
+
+/**
+ * Information about a single pointer (mouse, pen or finger) touching the canvas.
+ */
+export interface PointerInfo {
+  /**
+   * Unique identifier of the pointer.
+   */
+  id: number
+  /**
+   * `X` position relative to the canvas.
+   */
+  x: number
+  /**
+   * `Y` position relative to the canvas.
+   */
+  y: number
+  /**
+   * Position relative to the canvas.
+   */
+  pos: Vector
+  /**
+   * Pressure of the pointer - number between `0` and `1`.
+   */
+  pressure: number
+  /**
+   * Type of the device: `'mouse'`, `'pen'` or `'touch'`.
+   */
+  type: string
+  /**
+   * Returns `true` if this is the primary pointer (the one which drives the {@link Mouse}.)
+   */
+  isPrimary: boolean
+  /**
+   * Returns `true` if the pointer is in contact with the canvas (or the mouse button is pressed.)
+   */
+  isDown: boolean
+}
+
+/**
+ * Information about the pinch gesture (two pointers moving towards or away from each other.)
+ */
+export interface PinchGesture {
+  /**
+   * Scale change since the previous pinch event.
+   */
+  scale: number
+  /**
+   * Scale change since the gesture started.
+   */
+  totalScale: number
+  /**
+   * Point between the two pointers.
+   */
+  center: Vector
+}
+
+/**
+ * Information about the two-finger pan gesture.
+ */
+export interface PanGesture {
+  /**
+   * Movement since the previous pan event.
+   */
+  delta: Vector
+  /**
+   * Movement since the gesture started.
+   */
+  total: Vector
+  /**
+   * Point between the two pointers.
+   */
+  center: Vector
+}
+
+/**
+ * The `Pointers` class is used for user interaction with the touch screens, pens and mice.
+ * Unlike the {@link Mouse}, it tracks all the simultaneous pointers, and it detects
+ * the two-finger pinch and pan gestures.
+ * There is always one instance created for the specific canvas,
+ * and stored in the {@link pointers} variable, so there is no need
+ * to create any additional instance.
+ * #### Usage example
+ *
+ * ```typescript
+ * let k = 1
+ *
+ * function draw() {
+ *     clear()
+ *     for (const p of pointers.list) {
+ *         circle(p.x, p.y, 20 + 20 * p.pressure)
+ *     }
+ *     circle(width / 2, height / 2, 50 * k)
+ * }
+ *
+ * function events() {
+ *     pointers.pinch = (g) => {
+ *         k *= g.scale
+ *     }
+ * }
+ * ```
+ */
+export class Pointers {
+  private _canvas: HTMLCanvasElement
+  private _scope: InputScope
+  private _pointers: Map<number, PointerInfo>
+  private _gestureDist: number
+  private _gestureStartDist: number
+  private _gestureCenter: Vector
+  private _gestureStartCenter: Vector
+  /**
+   * This function may be defined by user
+   */
+  public down: ((p: PointerInfo) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public up: ((p: PointerInfo) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public move: ((p: PointerInfo) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public pinch: ((g: PinchGesture) => void) | null
+  /**
+   * This function may be defined by user
+   */
+  public pan: ((g: PanGesture) => void) | null
+
+  /**
+   *
+   * @param canvas HTML5 Canvas element with the visualization.
+   * @param scope Function in which the event handlers are executed (see {@link InputScope}.)
+   */
+  constructor(canvas: HTMLCanvasElement, scope: InputScope = (fn) => fn()) {
+    this._canvas = canvas
+    this._scope = scope
+    this._pointers = new Map()
+    this._gestureDist = 0
+    this._gestureStartDist = 0
+    this._gestureCenter = new Vector(0, 0)
+    this._gestureStartCenter = new Vector(0, 0)
+    this.down = null
+    this.up = null
+    this.move = null
+    this.pinch = null
+    this.pan = null
+    // otherwise the browser takes over the touch gestures for scrolling and zooming the page
+    if (this._canvas.style) this._canvas.style.touchAction = 'none'
+    this._canvas.addEventListener('pointerdown', this._onDown)
+    this._canvas.addEventListener('pointermove', this._onMove)
+    this._canvas.addEventListener('pointerup', this._onUp)
+    this._canvas.addEventListener('pointercancel', this._onUp)
+    this._canvas.addEventListener('pointerleave', this._onLeave)
+  }
+
+  private _onDown = (e: PointerEvent) =>
+    this._scope(() => {
+      const p = this._update(e)
+      p.isDown = true
+      if (this.down != null) this.down(p)
+      if (this._downPointers().length === 2) this._startGesture()
+    })
+
+  private _onMove = (e: PointerEvent) =>
+    this._scope(() => {
+      const p = this._update(e)
+      if (this.move != null) this.move(p)
+      if (p.isDown && this._downPointers().length === 2) this._updateGesture()
+    })
+
+  private _onUp = (e: PointerEvent) =>
+    this._scope(() => {
+      const p = this._update(e)
+      p.isDown = false
+      if (this.up != null) this.up(p)
+      // hovering pointers (mouse, pen) stay on the list until they leave the canvas
+      if (e.pointerType === 'touch' || e.type === 'pointercancel')
+        this._pointers.delete(e.pointerId)
+      if (this._downPointers().length === 2) this._startGesture()
+    })
+
+  private _onLeave = (e: PointerEvent) => {
+    const p = this._pointers.get(e.pointerId)
+    if (p && !p.isDown) this._pointers.delete(e.pointerId)
+  }
+
+  private _update(e: PointerEvent): PointerInfo {
+    const bbox = this._canvas.getBoundingClientRect()
+    const x = e.clientX - bbox.left
+    const y = e.clientY - bbox.top
+    let p = this._pointers.get(e.pointerId)
+    if (p) {
+      p.x = x
+      p.y = y
+      p.pos.set(x, y)
+      p.pressure = e.pressure
+    } else {
+      p = {
+        id: e.pointerId,
+        x: x,
+        y: y,
+        pos: new Vector(x, y),
+        pressure: e.pressure,
+        type: e.pointerType,
+        isPrimary: e.isPrimary,
+        isDown: false,
+      }
+      this._pointers.set(e.pointerId, p)
+    }
+    return p
+  }
+
+  private _downPointers(): PointerInfo[] {
+    return this.list.filter((p) => p.isDown)
+  }
+
+  private _startGesture(): void {
+    const [p1, p2] = this._downPointers()
+    this._gestureDist = dist(p1.x, p1.y, p2.x, p2.y)
+    this._gestureStartDist = this._gestureDist
+    this._gestureCenter.set((p1.x + p2.x) / 2, (p1.y + p2.y) / 2)
+    this._gestureStartCenter = this._gestureCenter.copy()
+  }
+
+  private _updateGesture(): void {
+    const [p1, p2] = this._downPointers()
+    const d = dist(p1.x, p1.y, p2.x, p2.y)
+    const center = new Vector((p1.x + p2.x) / 2, (p1.y + p2.y) / 2)
+    if (this.pinch != null && this._gestureDist > 0 && d > 0) {
+      this.pinch({
+        scale: d / this._gestureDist,
+        totalScale: d / this._gestureStartDist,
+        center: center.copy(),
+      })
+    }
+    if (this.pan != null) {
+      this.pan({
+        delta: center.sub(this._gestureCenter),
+        total: center.sub(this._gestureStartCenter),
+        center: center.copy(),
+      })
+    }
+    this._gestureDist = d
+    this._gestureCenter = center
+  }
+
+  /**
+   * Returns all the pointers currently over the canvas.
+   */
+  get list(): PointerInfo[] {
+    return Array.from(this._pointers.values())
+  }
+
+  /**
+   * Returns the number of the pointers currently over the canvas.
+   */
+  get count(): number {
+    return this._pointers.size
+  }
+
+  /**
+   * Returns the pointer with the given id, or `null` if there is no such pointer.
+   * @param id Pointer id.
+   */
+  get(id: number): PointerInfo | null {
+    return this._pointers.get(id) ?? null
+  }
+
+  /**
+   * Removes all the event listeners attached to the canvas.
+   */
+  dispose(): void {
+    this._canvas.removeEventListener('pointerdown', this._onDown)
+    this._canvas.removeEventListener('pointermove', this._onMove)
+    this._canvas.removeEventListener('pointerup', this._onUp)
+    this._canvas.removeEventListener('pointercancel', this._onUp)
+    this._canvas.removeEventListener('pointerleave', this._onLeave)
+    this._pointers.clear()
+  }
+}
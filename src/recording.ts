@@ -0,0 +1,424 @@
+'use strict'
+
+import { dva, renderTo } from './main'
+import { color2array } from './colors'
+import { ContextState, VirtualContext, VirtualGradient } from './context'
+
+/**
+ * Value stored in the {@link DrawCommand}. Everything is converted to the plain JSON values,
+ * so the recording can be saved as a snapshot.
+ */
+export type RecordedValue =
+  | number
+  | string
+  | boolean
+  | null
+  | RecordedValue[]
+  | { [key: string]: RecordedValue }
+
+/**
+ * Single call of the context method recorded by the {@link RecordingContext}.
+ */
+export interface DrawCommand {
+  /**
+   * Name of the method.
+   */
+  method: string
+  /**
+   * Arguments of the method.
+   */
+  args: RecordedValue[]
+  /**
+   * State of the context relevant to the painting methods (i.e. `fillStyle` for `fill`),
+   * always with the current transformation `[a, b, c, d, e, f]`.
+   */
+  state?: { [key: string]: RecordedValue }
+}
+
+type StateKey = keyof ContextState
+
+const fillState: StateKey[] = ['fillStyle', 'globalAlpha']
+const strokeState: StateKey[] = [
+  'strokeStyle',
+  'lineWidth',
+  'lineCap',
+  'lineJoin',
+  'miterLimit',
+  'lineDash',
+  'lineDashOffset',
+  'globalAlpha',
+]
+const textState: StateKey[] = ['font', 'textAlign', 'textBaseline']
+const shadowState: StateKey[] = ['shadowColor', 'shadowBlur', 'shadowOffsetX', 'shadowOffsetY']
+
+function toRecorded(v: unknown): RecordedValue {
+  if (v === undefined || v === null) return null
+  if (typeof v === 'number' || typeof v === 'string' || typeof v === 'boolean') return v
+  if (Array.isArray(v)) return v.map(toRecorded)
+  if (v instanceof VirtualGradient) {
+    return { type: v.type, coords: v.coords.slice(), stops: v.stops.map((s) => s.slice()) }
+  }
+  if (typeof v === 'object') {
+    const o = v as { src?: string; width?: number; height?: number; getContext?: unknown }
+    if (typeof o.getContext === 'function') {
+      const ctx = (o.getContext as (id: string) => unknown)('2d')
+      // the layers drawn on the recording canvas are stored with their commands
+      if (ctx instanceof RecordingContext)
+        return { recording: <RecordedValue>(<unknown>ctx.commands) }
+      return { canvas: [o.width ?? 0, o.height ?? 0] }
+    }
+    if (typeof o.src === 'string') return { image: o.src }
+  }
+  return String(v)
+}
+
+/**
+ * The `RecordingContext` class is the render target which does not draw anything,
+ * but records every call of the context methods into the {@link DrawCommand} list,
+ * together with the relevant state. It is used for the snapshot testing of the visualizations
+ * in Node.js, without any DOM, either with {@link record} or as the canvas of
+ * the {@link headlessCanvas}. The text is measured with a simple estimate, so the recording
+ * does not depend on the fonts available. The context does not support the hit testing,
+ * `isPointInPath` and `isPointInStroke` always return `false`.
+ *
+ * ```typescript
+ * setEnvironment({ createCanvas: (w, h) => new RecordingContext(w, h).canvas })
+ * headlessCanvas(400, 300)
+ *
+ * test('bar chart', () => {
+ *     const commands = record(() => drawBars(data))
+ *     expect(compareRecordings(snapshot, commands, 0.01)).toEqual([])
+ * })
+ * ```
+ */
+export class RecordingContext extends VirtualContext {
+  /**
+   * Recorded commands.
+   */
+  public commands: DrawCommand[]
+  /**
+   * Canvas-like object returning this context, i.e. for {@link setEnvironment}.
+   */
+  public canvas: HTMLCanvasElement
+
+  /**
+   * @param width Width of the canvas.
+   * @param height Height of the canvas.
+   */
+  constructor(width: number = 300, height: number = 150) {
+    super(width, height)
+    this.commands = []
+    this.canvas = <HTMLCanvasElement>(<unknown>{
+      width: width,
+      height: height,
+      getContext: () => this,
+    })
+  }
+
+  private _log(method: string, args: unknown[], keys?: StateKey[]): void {
+    const command: DrawCommand = { method, args: args.map(toRecorded) }
+    if (keys) {
+      const s = this._state
+      const state: { [key: string]: RecordedValue } = { transform: s.transform.slice() }
+      if (color2array(s.shadowColor)[3] > 0) keys = keys.concat(shadowState)
+      for (const k of keys) state[k] = toRecorded(s[k])
+      command.state = state
+    }
+    this.commands.push(command)
+  }
+
+  /**
+   * Returns the recorded commands, so the context can be passed to `JSON.stringify`.
+   */
+  toJSON(): DrawCommand[] {
+    return this.commands
+  }
+
+  /* state */
+
+  setLineDash(segments: number[]): void {
+    super.setLineDash(segments)
+    this._log('setLineDash', [segments])
+  }
+
+  save(): void {
+    super.save()
+    this._log('save', [])
+  }
+
+  restore(): void {
+    super.restore()
+    this._log('restore', [])
+  }
+
+  /* transformations */
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    super.transform(a, b, c, d, e, f)
+    this._log('transform', [a, b, c, d, e, f])
+  }
+
+  setTransform(a: number | DOMMatrix2DInit, b = 0, c = 0, d = 1, e = 0, f = 0): void {
+    super.setTransform(a, b, c, d, e, f)
+    this._log('setTransform', this._state.transform)
+  }
+
+  resetTransform(): void {
+    super.resetTransform()
+    this._log('resetTransform', [])
+  }
+
+  translate(x: number, y: number): void {
+    super.translate(x, y)
+    this._log('translate', [x, y])
+  }
+
+  rotate(angle: number): void {
+    super.rotate(angle)
+    this._log('rotate', [angle])
+  }
+
+  scale(x: number, y: number): void {
+    super.scale(x, y)
+    this._log('scale', [x, y])
+  }
+
+  /* paths */
+
+  beginPath(): void {
+    this._log('beginPath', [])
+  }
+
+  moveTo(x: number, y: number): void {
+    this._log('moveTo', [x, y])
+  }
+
+  lineTo(x: number, y: number): void {
+    this._log('lineTo', [x, y])
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number
+  ): void {
+    this._log('bezierCurveTo', [cp1x, cp1y, cp2x, cp2y, x, y])
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this._log('quadraticCurveTo', [cpx, cpy, x, y])
+  }
+
+  arc(x: number, y: number, r: number, startAngle: number, endAngle: number, ccw = false): void {
+    this._log('arc', [x, y, r, startAngle, endAngle, ccw])
+  }
+
+  arcTo(x1: number, y1: number, x2: number, y2: number, r: number): void {
+    this._log('arcTo', [x1, y1, x2, y2, r])
+  }
+
+  ellipse(
+    x: number,
+    y: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    ccw = false
+  ): void {
+    this._log('ellipse', [x, y, rx, ry, rotation, startAngle, endAngle, ccw])
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this._log('rect', [x, y, w, h])
+  }
+
+  closePath(): void {
+    this._log('closePath', [])
+  }
+
+  /* painting */
+
+  fill(): void {
+    this._log('fill', [], fillState)
+  }
+
+  stroke(): void {
+    this._log('stroke', [], strokeState)
+  }
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    this._log('fillRect', [x, y, w, h], fillState)
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number): void {
+    this._log('strokeRect', [x, y, w, h], strokeState)
+  }
+
+  clearRect(x: number, y: number, w: number, h: number): void {
+    this._log('clearRect', [x, y, w, h], [])
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    this._log('fillText', [text, x, y], fillState.concat(textState))
+  }
+
+  strokeText(text: string, x: number, y: number): void {
+    this._log('strokeText', [text, x, y], strokeState.concat(textState))
+  }
+
+  drawImage(img: CanvasImageSource, ...args: number[]): void {
+    this._log('drawImage', [img, ...args], ['globalAlpha'])
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): VirtualGradient {
+    this._log('createLinearGradient', [x0, y0, x1, y1])
+    return super.createLinearGradient(x0, y0, x1, y1)
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): VirtualGradient {
+    this._log('createRadialGradient', [x0, y0, r0, x1, y1, r1])
+    return super.createRadialGradient(x0, y0, r0, x1, y1, r1)
+  }
+
+  /**
+   * The hit testing is not supported, so it always returns `false`.
+   */
+  isPointInPath(): boolean {
+    return false
+  }
+
+  /**
+   * The hit testing is not supported, so it always returns `false`.
+   */
+  isPointInStroke(): boolean {
+    return false
+  }
+}
+
+/**
+ * This function draws the frame into a new {@link RecordingContext} and returns the recorded commands.
+ * @param draw Function drawing the frame (default - the `draw` function of the visualization.)
+ */
+export function record(draw?: () => void): DrawCommand[] {
+  const recording = new RecordingContext(dva.width, dva.height)
+  const fn = draw ?? dva.draw
+  if (fn) renderTo(recording.context, fn)
+  return recording.commands
+}
+
+/**
+ * Difference between two recordings found by {@link compareRecordings}.
+ */
+export interface RecordingDifference {
+  /**
+   * Index of the command.
+   */
+  index: number
+  /**
+   * Location of the difference inside the command, i.e. `'args[2]'` or `'state.fillStyle'`.
+   */
+  path: string
+  /**
+   * Expected value (`undefined` if the command or value is missing.)
+   */
+  expected: RecordedValue | undefined
+  /**
+   * Actual value (`undefined` if the command or value is missing.)
+   */
+  actual: RecordedValue | undefined
+}
+
+function compareValues(
+  expected: RecordedValue | undefined,
+  actual: RecordedValue | undefined,
+  tolerance: number,
+  index: number,
+  path: string,
+  out: RecordingDifference[]
+): void {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    if (expected === actual || Math.abs(expected - actual) <= tolerance) return
+    if (isNaN(expected) && isNaN(actual)) return
+  } else if (Array.isArray(expected) && Array.isArray(actual)) {
+    const n = Math.max(expected.length, actual.length)
+    for (let i = 0; i < n; i++) {
+      compareValues(expected[i], actual[i], tolerance, index, `${path}[${i}]`, out)
+    }
+    return
+  } else if (
+    expected !== null &&
+    actual !== null &&
+    typeof expected === 'object' &&
+    typeof actual === 'object' &&
+    !Array.isArray(expected) &&
+    !Array.isArray(actual)
+  ) {
+    const keys = Object.keys(expected).concat(Object.keys(actual).filter((k) => !(k in expected)))
+    for (const k of keys) {
+      compareValues(expected[k], actual[k], tolerance, index, path ? `${path}.${k}` : k, out)
+    }
+    return
+  } else if (expected === actual) {
+    return
+  }
+  out.push({ index, path, expected, actual })
+}
+
+/**
+ * This function compares two recordings (see {@link RecordingContext}), and returns
+ * the list of differences, which is empty if the recordings are the same.
+ * The numbers (coordinates, line widths, transformations) are compared with the given tolerance.
+ * @param expected Recording, i.e. loaded from the snapshot.
+ * @param actual Recording of the current code.
+ * @param tolerance Maximum difference between the numbers considered equal.
+ */
+export function compareRecordings(
+  expected: DrawCommand[],
+  actual: DrawCommand[],
+  tolerance: number = 1e-6
+): RecordingDifference[] {
+  const out: RecordingDifference[] = []
+  const n = Math.max(expected.length, actual.length)
+  for (let i = 0; i < n; i++) {
+    const e = expected[i]
+    const a = actual[i]
+    if (!e || !a) {
+      out.push({ index: i, path: '', expected: e?.method, actual: a?.method })
+      continue
+    }
+    if (e.method !== a.method) {
+      out.push({ index: i, path: 'method', expected: e.method, actual: a.method })
+      continue
+    }
+    compareValues(e.args, a.args, tolerance, i, 'args', out)
+    compareValues(e.state ?? null, a.state ?? null, tolerance, i, 'state', out)
+  }
+  return out
+}
+
+/**
+ * This function returns `true` if the recordings are the same within the given tolerance
+ * (see {@link compareRecordings}.)
+ * @param expected
+ * @param actual
+ * @param tolerance Maximum difference between the numbers considered equal.
+ */
+export function recordingsEqual(
+  expected: DrawCommand[],
+  actual: DrawCommand[],
+  tolerance: number = 1e-6
+): boolean {
+  return compareRecordings(expected, actual, tolerance).length === 0
+}
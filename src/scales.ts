@@ -1,9 +1,222 @@
 'use strict'
 
-import { round } from './math'
+import { centile, round } from './math'
 
 /**
- * This function returns a function which maps number on the linear scale.
+ * Scale object returned by {@link linearScale}, {@link logScale}, {@link powScale}, {@link sqrtScale}
+ * and {@link symlogScale}. It can be called as a function mapping the data to the result range,
+ * and it provides the methods used for the axes and the interaction.
+ *
+ * ```typescript
+ * const y = linearScale(0, 97.3, height - 20, 20).nice()
+ * for (const t of y.ticks(5)) text(str(t), 10, y(t))
+ * const value = y.invert(mouse.y)
+ * ```
+ */
+export interface ContinuousScale {
+  (v: number): number
+  /**
+   * Maps the value from the result range back to the data.
+   * @param v
+   */
+  invert(v: number): number
+  /**
+   * Returns the domain (data values.)
+   */
+  domain(): number[]
+  /**
+   * Sets the domain. With more than two values the scale is piecewise (polylinear),
+   * and the range has to have the same number of values.
+   * @param d
+   */
+  domain(d: number[]): ContinuousScale
+  /**
+   * Returns the result range.
+   */
+  range(): number[]
+  /**
+   * Sets the result range.
+   * @param r
+   */
+  range(r: number[]): ContinuousScale
+  /**
+   * Returns `true` if the results are clamped to the range.
+   */
+  clamp(): boolean
+  /**
+   * Turns the clamping on or off. If on, the values outside the domain are mapped
+   * to the ends of the range.
+   * @param c
+   */
+  clamp(c: boolean): ContinuousScale
+  /**
+   * Extends the domain, so it starts and ends on round values.
+   * @param count Approximate number of ticks (default `10`.)
+   */
+  nice(count?: number): ContinuousScale
+  /**
+   * Returns round values from the domain, suitable for the axis ticks.
+   * @param count Approximate number of ticks (default `10`.)
+   */
+  ticks(count?: number): number[]
+  /**
+   * Returns an independent copy of the scale.
+   */
+  copy(): ContinuousScale
+}
+
+interface ScaleTransform {
+  forward: (v: number, domain: number[]) => number
+  backward: (v: number) => number
+  ticks: (start: number, stop: number, count: number) => number[]
+  nice: (start: number, stop: number, count: number) => [number, number]
+}
+
+/**
+ * This function returns the step between round values, so there are approximately
+ * `count` steps between `start` and `stop`. The step is 1, 2 or 5 times a power of ten.
+ * @param start
+ * @param stop
+ * @param count Approximate number of steps.
+ */
+export function tickStep(start: number, stop: number, count: number): number {
+  const step0 = Math.abs(stop - start) / Math.max(0, count)
+  let step1 = Math.pow(10, Math.floor(Math.log(step0) / Math.LN10))
+  const error = step0 / step1
+  if (error >= Math.sqrt(50)) step1 *= 10
+  else if (error >= Math.sqrt(10)) step1 *= 5
+  else if (error >= Math.sqrt(2)) step1 *= 2
+  return stop < start ? -step1 : step1
+}
+
+/**
+ * This function returns approximately `count` round values between `start` and `stop` (inclusive),
+ * spaced by 1, 2 or 5 times a power of ten.
+ * @param start
+ * @param stop
+ * @param count Approximate number of values (default `10`.)
+ */
+export function ticks(start: number, stop: number, count: number = 10): number[] {
+  if (start === stop) return [start]
+  const reverse = stop < start
+  const [lo, hi] = reverse ? [stop, start] : [start, stop]
+  const step = tickStep(lo, hi, count)
+  if (!isFinite(step) || step === 0) return []
+  const result: number[] = []
+  // the values are computed from integers, so there are no floating-point artifacts like 0.30000000000000004
+  if (step >= 1) {
+    for (let i = Math.ceil(lo / step); i * step <= hi; i++) result.push(i * step)
+  } else {
+    const inv = Math.round(1 / step)
+    for (let i = Math.ceil(lo * inv); i / inv <= hi; i++) result.push(i / inv)
+  }
+  return reverse ? result.reverse() : result
+}
+
+function niceLinear(start: number, stop: number, count: number): [number, number] {
+  let prevStep: number | undefined
+  for (let i = 0; i < 10; i++) {
+    const step = tickStep(start, stop, count)
+    if (step === prevStep || !isFinite(step) || step === 0) break
+    if (step > 0) {
+      start = Math.floor(start / step) * step
+      stop = Math.ceil(stop / step) * step
+    } else {
+      start = Math.ceil(start / step) * step
+      stop = Math.floor(stop / step) * step
+    }
+    prevStep = step
+  }
+  return [start, stop]
+}
+
+const identity: ScaleTransform = {
+  forward: (v) => v,
+  backward: (v) => v,
+  ticks: ticks,
+  nice: niceLinear,
+}
+
+function bisect(values: number[], v: number): number {
+  // index of the segment containing v, values are sorted ascending
+  let i = 0
+  while (i < values.length - 2 && v >= values[i + 1]) i++
+  return i
+}
+
+function interpolatePiecewise(from: number[], to: number[], v: number): number {
+  let f = from
+  let t = to
+  if (f[f.length - 1] < f[0]) {
+    f = f.slice().reverse()
+    t = t.slice().reverse()
+  }
+  const i = bisect(f, v)
+  if (f[i] === f[i + 1]) return (t[i] + t[i + 1]) / 2
+  return t[i] + ((v - f[i]) / (f[i + 1] - f[i])) * (t[i + 1] - t[i])
+}
+
+function continuousScale(domain: number[], range: number[], t: ScaleTransform): ContinuousScale {
+  let d = domain.slice()
+  let r = range.slice()
+  let clamped = false
+
+  const clampTo = (v: number, values: number[]) =>
+    Math.min(Math.max(v, Math.min(...values)), Math.max(...values))
+  const size = () => Math.min(d.length, r.length)
+
+  const scale = ((v: number): number => {
+    const n = size()
+    let tv = t.forward(v, d)
+    const td = d.slice(0, n).map((x) => t.forward(x, d))
+    if (clamped) tv = clampTo(tv, td)
+    return interpolatePiecewise(td, r.slice(0, n), tv)
+  }) as ContinuousScale
+
+  scale.invert = (v: number): number => {
+    const n = size()
+    const rr = r.slice(0, n)
+    if (clamped) v = clampTo(v, rr)
+    const td = d.slice(0, n).map((x) => t.forward(x, d))
+    return t.backward(interpolatePiecewise(rr, td, v))
+  }
+
+  scale.domain = ((value?: number[]) => {
+    if (value === undefined) return d.slice()
+    d = value.slice()
+    return scale
+  }) as ContinuousScale['domain']
+
+  scale.range = ((value?: number[]) => {
+    if (value === undefined) return r.slice()
+    r = value.slice()
+    return scale
+  }) as ContinuousScale['range']
+
+  scale.clamp = ((value?: boolean) => {
+    if (value === undefined) return clamped
+    clamped = value
+    return scale
+  }) as ContinuousScale['clamp']
+
+  scale.nice = (count: number = 10) => {
+    const [start, stop] = t.nice(d[0], d[d.length - 1], count)
+    d[0] = start
+    d[d.length - 1] = stop
+    return scale
+  }
+
+  scale.ticks = (count: number = 10) => t.ticks(d[0], d[d.length - 1], count)
+
+  scale.copy = () => continuousScale(d, r, t).clamp(clamped)
+
+  return scale
+}
+
+/**
+ * This function returns a scale, which maps number on the linear scale.
+ * The scale can be called as a function, and has also methods for inverting, clamping and
+ * generating ticks (see {@link ContinuousScale}.)
  * @param dataMin Minimum of the data.
  * @param dataMax Maximum of the data.
  * @param resultMin Minimum of the mapped result.
@@ -14,17 +227,161 @@ export function linearScale(
   dataMax: number,
   resultMin: number,
   resultMax: number
-): (v: number) => number {
-  return (v: number): number => {
-    let domain: number
-    if (dataMin !== dataMax) {
-      domain = (v - dataMin) / (dataMax - dataMin)
-    } else {
-      domain = 0.5
-    }
-    const range = resultMax - resultMin
-    return domain * range + resultMin
+): ContinuousScale {
+  return continuousScale([dataMin, dataMax], [resultMin, resultMax], identity)
+}
+
+function transformScale(
+  forward: (v: number) => number,
+  backward: (v: number) => number,
+  dataMin: number,
+  dataMax: number,
+  resultMin: number,
+  resultMax: number
+): ContinuousScale {
+  return continuousScale([dataMin, dataMax], [resultMin, resultMax], {
+    forward,
+    backward,
+    ticks: ticks,
+    nice: niceLinear,
+  })
+}
+
+export type NonPositiveHandling = 'error' | 'clamp'
+
+/**
+ * This function returns a scale, which maps number on the logarithmic scale.
+ * The logarithm is not defined for `0` and the negative numbers, so the domain has to be positive.
+ * For the data crossing zero use {@link symlogScale}.
+ * The ticks are placed on the powers of the base.
+ * @param dataMin Minimum of the data.
+ * @param dataMax Maximum of the data.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ * @param base Base of the logarithm (default `10`.)
+ * @param nonPositive Defines what happens with the values `<= 0`: `'error'` (default) throws an error,
+ * `'clamp'` maps them as the lower end of the domain.
+ */
+export function logScale(
+  dataMin: number,
+  dataMax: number,
+  resultMin: number,
+  resultMax: number,
+  base: number = 10,
+  nonPositive: NonPositiveHandling = 'error'
+): ContinuousScale {
+  if (dataMin <= 0 || dataMax <= 0) {
+    throw new Error(`dvalib: log scale domain has to be positive, got [${dataMin}, ${dataMax}].`)
   }
+  const lnBase = Math.log(base)
+  const log = (v: number) => Math.log(v) / lnBase
+  const exp = (v: number) => Math.pow(base, v)
+  return continuousScale([dataMin, dataMax], [resultMin, resultMax], {
+    forward: (v, domain) => {
+      if (v <= 0) {
+        if (nonPositive === 'error') {
+          throw new Error(`dvalib: log scale is not defined for ${v}.`)
+        }
+        v = Math.min(...domain)
+      }
+      return log(v)
+    },
+    backward: exp,
+    ticks: (start, stop, count) => {
+      const [lo, hi] = start < stop ? [start, stop] : [stop, start]
+      const i0 = Math.floor(log(lo))
+      const i1 = Math.ceil(log(hi))
+      const result: number[] = []
+      // with only a few decades also the intermediate values (2, 3, ... or 2 and 5 times a power) are used
+      const decades = i1 - i0
+      let multiples = [1]
+      if (Number.isInteger(base) && decades * (base - 1) <= count * 1.5) {
+        multiples = Array.from({ length: base - 1 }, (_, j) => j + 1)
+      } else if (base === 10 && decades * 3 <= count * 1.5) {
+        multiples = [1, 2, 5]
+      }
+      for (let i = i0; i <= i1; i++) {
+        for (const j of multiples) {
+          const v = Math.round(exp(i) * j * 1e12) / 1e12
+          if (v >= lo && v <= hi) result.push(v)
+        }
+      }
+      return start < stop ? result : result.reverse()
+    },
+    nice: (start, stop) => {
+      const f = (v: number, up: boolean) => exp(up ? Math.ceil(log(v)) : Math.floor(log(v)))
+      return start < stop ? [f(start, false), f(stop, true)] : [f(start, true), f(stop, false)]
+    },
+  })
+}
+
+/**
+ * This function returns a scale, which maps number on the power scale `y = x^k`.
+ * Negative values are mapped symmetrically (`-(|x|^k)`.)
+ * @param dataMin Minimum of the data.
+ * @param dataMax Maximum of the data.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ * @param exponent Exponent `k` (default `1`.)
+ */
+export function powScale(
+  dataMin: number,
+  dataMax: number,
+  resultMin: number,
+  resultMax: number,
+  exponent: number = 1
+): ContinuousScale {
+  const pow = (k: number) => (v: number) => (v < 0 ? -Math.pow(-v, k) : Math.pow(v, k))
+  return transformScale(pow(exponent), pow(1 / exponent), dataMin, dataMax, resultMin, resultMax)
+}
+
+/**
+ * This function returns a scale, which maps number on the square root scale.
+ * It is the right scale for the bubble radius, because the bubble area is then proportional to the value.
+ *
+ * ```typescript
+ * const r = sqrtScale(0, max(values), 0, 40)
+ * circle(x, y, r(v))
+ * ```
+ * @param dataMin Minimum of the data.
+ * @param dataMax Maximum of the data.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ */
+export function sqrtScale(
+  dataMin: number,
+  dataMax: number,
+  resultMin: number,
+  resultMax: number
+): ContinuousScale {
+  return powScale(dataMin, dataMax, resultMin, resultMax, 0.5)
+}
+
+/**
+ * This function returns a scale, which maps number on the symmetric log scale.
+ * It behaves like the logarithmic scale for the large values, and like the linear one around zero,
+ * so it can be used for the data crossing zero.
+ * @param dataMin Minimum of the data.
+ * @param dataMax Maximum of the data.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ * @param constant Size of the linear region around zero (default `1`.)
+ */
+export function symlogScale(
+  dataMin: number,
+  dataMax: number,
+  resultMin: number,
+  resultMax: number,
+  constant: number = 1
+): ContinuousScale {
+  return transformScale(
+    (v) => Math.sign(v) * Math.log1p(Math.abs(v) / constant),
+    (v) => Math.sign(v) * Math.expm1(Math.abs(v)) * constant,
+    dataMin,
+    dataMax,
+    resultMin,
+    resultMax
+  )
 }
 
 /**
@@ -62,3 +419,769 @@ export function ordinalScale(
     }
   }
 }
+
+export type Category = number | string | Date
+
+/**
+ * Scale object returned by {@link pointScale}. It maps the categories to evenly spaced points.
+ */
+export interface PointScale {
+  /**
+   * Returns the position of the category, or `NaN` if the category is not in the domain.
+   */
+  (v: Category): number
+  /**
+   * Returns the category at the given position, or `undefined` if there is no category there.
+   * @param v Position, i.e. `mouse.x`.
+   */
+  invert(v: number): Category | undefined
+  /**
+   * Returns the categories.
+   */
+  domain(): Category[]
+  /**
+   * Sets the categories. Duplicates are ignored.
+   * @param d
+   */
+  domain(d: Category[]): this
+  /**
+   * Returns the result range.
+   */
+  range(): [number, number]
+  /**
+   * Sets the result range.
+   * @param r
+   */
+  range(r: [number, number]): this
+  /**
+   * Returns the width of the band (`0` for the point scale.)
+   */
+  bandwidth(): number
+  /**
+   * Returns the distance between the starts of the adjacent bands (or points.)
+   */
+  step(): number
+  /**
+   * Returns the outer padding.
+   */
+  padding(): number
+  /**
+   * Sets the padding (for the band scale both inner and outer) as a fraction of the step.
+   * @param p
+   */
+  padding(p: number): this
+  /**
+   * Returns the alignment.
+   */
+  align(): number
+  /**
+   * Sets how the outer padding is distributed: `0` - everything at the end, `0.5` (default) - evenly,
+   * `1` - everything at the start.
+   * @param a
+   */
+  align(a: number): this
+  /**
+   * Returns `true` if the positions are rounded to the whole pixels.
+   */
+  round(): boolean
+  /**
+   * If `true`, the positions and the band width are rounded to the whole pixels, to get sharp edges.
+   * @param r
+   */
+  round(r: boolean): this
+  /**
+   * Returns an independent copy of the scale.
+   */
+  copy(): this
+}
+
+/**
+ * Scale object returned by {@link bandScale}. It divides the range into the bands of equal width.
+ */
+export interface BandScale extends PointScale {
+  /**
+   * Returns the inner padding.
+   */
+  paddingInner(): number
+  /**
+   * Sets the space between the bands as a fraction of the step (between `0` and `1`.)
+   * @param p
+   */
+  paddingInner(p: number): this
+  /**
+   * Returns the outer padding.
+   */
+  paddingOuter(): number
+  /**
+   * Sets the space before the first and after the last band as a fraction of the step.
+   * @param p
+   */
+  paddingOuter(p: number): this
+}
+
+function categoryKey(v: Category): number | string {
+  return v instanceof Date ? v.getTime() : v
+}
+
+function createBandScale(
+  categories: Category[],
+  resultMin: number,
+  resultMax: number,
+  point: boolean
+): BandScale {
+  let d: Category[] = []
+  let index = new Map<number | string, number>()
+  let r: [number, number] = [resultMin, resultMax]
+  let pInner = point ? 1 : 0
+  let pOuter = 0
+  let alignment = 0.5
+  let rounded = false
+  let positions: number[] = []
+  let stepSize = 0
+  let bandSize = 0
+
+  const rescale = () => {
+    const n = d.length
+    const reverse = r[1] < r[0]
+    let start = Math.min(r[0], r[1])
+    const stop = Math.max(r[0], r[1])
+    stepSize = (stop - start) / Math.max(1, n - pInner + pOuter * 2)
+    if (rounded) stepSize = Math.floor(stepSize)
+    start += (stop - start - stepSize * (n - pInner)) * alignment
+    bandSize = stepSize * (1 - pInner)
+    if (rounded) {
+      start = Math.round(start)
+      bandSize = Math.round(bandSize)
+    }
+    positions = d.map((_, i) => start + stepSize * i)
+    if (reverse) positions.reverse()
+  }
+
+  const scale = ((v: Category): number => {
+    const i = index.get(categoryKey(v))
+    return i === undefined ? NaN : positions[i]
+  }) as BandScale
+
+  scale.invert = (v: number): Category | undefined => {
+    for (let i = 0; i < d.length; i++) {
+      if (
+        bandSize > 0
+          ? v >= positions[i] && v < positions[i] + bandSize
+          : Math.abs(v - positions[i]) <= stepSize / 2
+      ) {
+        return d[i]
+      }
+    }
+    return undefined
+  }
+
+  scale.domain = ((value?: Category[]) => {
+    if (value === undefined) return d.slice()
+    d = []
+    index = new Map()
+    for (const v of value) {
+      const k = categoryKey(v)
+      if (!index.has(k)) {
+        index.set(k, d.length)
+        d.push(v)
+      }
+    }
+    rescale()
+    return scale
+  }) as BandScale['domain']
+
+  scale.range = ((value?: [number, number]) => {
+    if (value === undefined) return [r[0], r[1]]
+    r = [value[0], value[1]]
+    rescale()
+    return scale
+  }) as BandScale['range']
+
+  scale.bandwidth = () => bandSize
+  scale.step = () => stepSize
+
+  scale.padding = ((value?: number) => {
+    if (value === undefined) return pOuter
+    pOuter = value
+    if (!point) pInner = Math.min(1, value)
+    rescale()
+    return scale
+  }) as BandScale['padding']
+
+  scale.paddingInner = ((value?: number) => {
+    if (value === undefined) return pInner
+    pInner = Math.min(1, value)
+    rescale()
+    return scale
+  }) as BandScale['paddingInner']
+
+  scale.paddingOuter = ((value?: number) => {
+    if (value === undefined) return pOuter
+    pOuter = value
+    rescale()
+    return scale
+  }) as BandScale['paddingOuter']
+
+  scale.align = ((value?: number) => {
+    if (value === undefined) return alignment
+    alignment = Math.max(0, Math.min(1, value))
+    rescale()
+    return scale
+  }) as BandScale['align']
+
+  scale.round = ((value?: boolean) => {
+    if (value === undefined) return rounded
+    rounded = value
+    rescale()
+    return scale
+  }) as BandScale['round']
+
+  scale.copy = () => {
+    const c = createBandScale(d, r[0], r[1], point)
+    return c.paddingInner(pInner).paddingOuter(pOuter).align(alignment).round(rounded)
+  }
+
+  return scale.domain(categories)
+}
+
+/**
+ * This function returns a scale, which divides the range into the bands of equal width -
+ * one for every category. It is used i.e. for the bar charts. Unlike the {@link ordinalScale},
+ * the scale is called with the category value, not with its index.
+ *
+ * ```typescript
+ * const x = bandScale(['A', 'B', 'C'], 20, width - 20).paddingInner(0.2).paddingOuter(0.1)
+ * for (const d of data) rect(x(d.name), y(d.value), x.bandwidth(), y(0) - y(d.value))
+ * const hovered = x.invert(mouse.x)
+ * ```
+ * @param categories An array with the categories.
+ * @param resultMin Start of the range.
+ * @param resultMax End of the range.
+ */
+export function bandScale(categories: Category[], resultMin: number, resultMax: number): BandScale {
+  return createBandScale(categories, resultMin, resultMax, false)
+}
+
+/**
+ * This function returns a scale, which maps the categories to evenly spaced points.
+ * It is used i.e. for the dot plots. The {@link PointScale.padding | padding} defines the space
+ * before the first and after the last point as a fraction of the step.
+ * @param categories An array with the categories.
+ * @param resultMin Start of the range.
+ * @param resultMax End of the range.
+ */
+export function pointScale(
+  categories: Category[],
+  resultMin: number,
+  resultMax: number
+): PointScale {
+  return createBandScale(categories, resultMin, resultMax, true)
+}
+
+/**
+ * Base of the scales mapping the numbers to the discrete outputs, like colors or sizes.
+ * See {@link quantizeScale}, {@link quantileScale} and {@link thresholdScale}.
+ */
+export interface DiscreteScale<T> {
+  /**
+   * Returns the output for the value, or `undefined` if the value is `NaN`.
+   */
+  (v: number): T
+  /**
+   * Returns the extent `[x0, x1]` of the values mapped to the output. It is used i.e. for the legends.
+   * If the output is not in the range, `[NaN, NaN]` is returned.
+   * @param output
+   */
+  invertExtent(output: T): [number, number]
+  /**
+   * Returns the outputs.
+   */
+  range(): T[]
+  /**
+   * Sets the outputs.
+   * @param r
+   */
+  range(r: T[]): this
+  /**
+   * Returns the breakpoints between the outputs.
+   */
+  thresholds(): number[]
+  /**
+   * Returns an independent copy of the scale.
+   */
+  copy(): this
+}
+
+/**
+ * Scale object returned by {@link quantizeScale}.
+ */
+export interface QuantizeScale<T> extends DiscreteScale<T> {
+  /**
+   * Returns the domain `[min, max]`.
+   */
+  domain(): [number, number]
+  /**
+   * Sets the domain, which is divided into the equal intervals.
+   * @param d
+   */
+  domain(d: [number, number]): this
+  /**
+   * Extends the domain, so it starts and ends on round values.
+   * @param count Approximate number of ticks (default `10`.)
+   */
+  nice(count?: number): this
+  /**
+   * Returns round values from the domain.
+   * @param count Approximate number of ticks (default `10`.)
+   */
+  ticks(count?: number): number[]
+}
+
+/**
+ * Scale object returned by {@link quantileScale}.
+ */
+export interface QuantileScale<T> extends DiscreteScale<T> {
+  /**
+   * Returns the sorted data.
+   */
+  domain(): number[]
+  /**
+   * Sets the data, from which the quantiles are computed. `NaN` values are ignored.
+   * @param d
+   */
+  domain(d: number[]): this
+  /**
+   * Returns the quantiles, i.e. the same as the {@link DiscreteScale.thresholds | thresholds}.
+   */
+  quantiles(): number[]
+}
+
+/**
+ * Scale object returned by {@link thresholdScale}.
+ */
+export interface ThresholdScale<T> extends DiscreteScale<T> {
+  /**
+   * Returns the breakpoints.
+   */
+  domain(): number[]
+  /**
+   * Sets the breakpoints. There should be one breakpoint less than the outputs.
+   * @param d
+   */
+  domain(d: number[]): this
+}
+
+function discreteScale<T>(
+  range: T[],
+  thresholds: () => number[],
+  extent: () => [number, number]
+): DiscreteScale<T> {
+  let r = range.slice()
+
+  const scale = ((v: number): T | undefined => {
+    if (isNaN(v)) return undefined
+    const th = thresholds()
+    // index of the first threshold greater than v
+    let i = 0
+    while (i < th.length && v >= th[i]) i++
+    return r[Math.min(i, r.length - 1)]
+  }) as DiscreteScale<T>
+
+  scale.invertExtent = (output: T): [number, number] => {
+    const i = r.indexOf(output)
+    if (i < 0) return [NaN, NaN]
+    const th = thresholds()
+    const [min, max] = extent()
+    return [i > 0 ? th[i - 1] : min, i < th.length ? th[i] : max]
+  }
+
+  scale.range = ((value?: T[]) => {
+    if (value === undefined) return r.slice()
+    r = value.slice()
+    return scale
+  }) as DiscreteScale<T>['range']
+
+  scale.thresholds = () => thresholds().slice()
+
+  return scale
+}
+
+/**
+ * This function returns a scale, which divides the domain into the equal intervals -
+ * one for every output. It is used i.e. for the choropleth maps with the equal interval classes.
+ *
+ * ```typescript
+ * const c = quantizeScale(0, 100, ['#eff3ff', '#bdd7e7', '#6baed6', '#2171b5'])
+ * fill(c(region.value))
+ * const [from, to] = c.invertExtent('#6baed6') // [50, 75]
+ * ```
+ * @param dataMin Minimum of the data.
+ * @param dataMax Maximum of the data.
+ * @param range An array with the outputs.
+ */
+export function quantizeScale<T>(dataMin: number, dataMax: number, range: T[]): QuantizeScale<T> {
+  let d: [number, number] = [dataMin, dataMax]
+  const thresholds = () => {
+    const n = scale.range().length
+    const th: number[] = []
+    for (let i = 1; i < n; i++) th.push(d[0] + ((d[1] - d[0]) * i) / n)
+    return th
+  }
+  const scale = discreteScale(range, thresholds, () => [d[0], d[1]]) as QuantizeScale<T>
+
+  scale.domain = ((value?: [number, number]) => {
+    if (value === undefined) return [d[0], d[1]]
+    d = [value[0], value[1]]
+    return scale
+  }) as QuantizeScale<T>['domain']
+
+  scale.nice = (count: number = 10) => {
+    d = niceLinear(d[0], d[1], count)
+    return scale
+  }
+
+  scale.ticks = (count: number = 10) => ticks(d[0], d[1], count)
+
+  scale.copy = () => quantizeScale(d[0], d[1], scale.range())
+
+  return scale
+}
+
+/**
+ * This function returns a scale, which divides the data into the groups with the same number
+ * of values - one for every output. The breakpoints are computed with the {@link centile} function.
+ *
+ * ```typescript
+ * const c = quantileScale(regions.map((r) => r.value), ['#fee5d9', '#fcae91', '#fb6a4a', '#cb181d'])
+ * fill(c(region.value))
+ * ```
+ * @param data An array with the data.
+ * @param range An array with the outputs.
+ */
+export function quantileScale<T>(data: number[], range: T[]): QuantileScale<T> {
+  let d: number[] = []
+  let q: number[] = []
+  const update = () => {
+    const n = scale.range().length
+    q = []
+    if (d.length === 0) return
+    for (let i = 1; i < n; i++) q.push(centile(d, (100 * i) / n))
+  }
+  const scale = discreteScale(
+    range,
+    () => q,
+    () => [d.length ? d[0] : NaN, d.length ? d[d.length - 1] : NaN]
+  ) as QuantileScale<T>
+  const setRange = scale.range
+
+  scale.domain = ((value?: number[]) => {
+    if (value === undefined) return d.slice()
+    d = value.filter((v) => !isNaN(v)).sort((a, b) => a - b)
+    update()
+    return scale
+  }) as QuantileScale<T>['domain']
+
+  scale.range = ((value?: T[]) => {
+    if (value === undefined) return setRange()
+    setRange(value)
+    update()
+    return scale
+  }) as QuantileScale<T>['range']
+
+  scale.quantiles = () => q.slice()
+
+  scale.copy = () => quantileScale(d, scale.range())
+
+  return scale.domain(data)
+}
+
+/**
+ * This function returns a scale with the explicit breakpoints. The values lower than the first
+ * breakpoint are mapped to the first output, the values between the first and the second
+ * breakpoint to the second output, and so on. The extent of the first and the last output
+ * is open, i.e. `[-Infinity, x1]`.
+ *
+ * ```typescript
+ * const c = thresholdScale([0, 10, 50], ['#2166ac', '#f7f7f7', '#f4a582', '#b2182b'])
+ * ```
+ * @param thresholds An array with the sorted breakpoints.
+ * @param range An array with the outputs.
+ */
+export function thresholdScale<T>(thresholds: number[], range: T[]): ThresholdScale<T> {
+  let d = thresholds.slice()
+  const scale = discreteScale(
+    range,
+    () => d.slice(0, Math.max(scale.range().length - 1, 0)),
+    () => [-Infinity, Infinity]
+  ) as ThresholdScale<T>
+
+  scale.domain = ((value?: number[]) => {
+    if (value === undefined) return d.slice()
+    d = value.slice()
+    return scale
+  }) as ThresholdScale<T>['domain']
+
+  scale.copy = () => thresholdScale(d, scale.range())
+
+  return scale
+}
+
+export type TimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'
+
+/**
+ * Scale function mapping dates returned by {@link timeScale} and {@link utcScale}.
+ */
+export interface TimeScale {
+  (d: Date): number
+  /**
+   * Maps the value from the result range back to the date.
+   * @param v
+   */
+  invert(v: number): Date
+  /**
+   * Returns the dates of the ticks aligned to the calendar, i.e. full hours, days, months or years.
+   * @param count Approximate number of the ticks (default `10`.)
+   */
+  ticks(count?: number): Date[]
+  /**
+   * Returns the domain `[dateMin, dateMax]`.
+   */
+  domain(): [Date, Date]
+  /**
+   * Returns the result range `[resultMin, resultMax]`.
+   */
+  range(): [number, number]
+  /**
+   * `true` if the ticks are aligned to the UTC calendar (see {@link utcScale}.)
+   */
+  utc: boolean
+}
+
+const SECOND = 1000
+const MINUTE = SECOND * 60
+const HOUR = MINUTE * 60
+const DAY = HOUR * 24
+const WEEK = DAY * 7
+const MONTH = DAY * 30
+const YEAR = DAY * 365
+
+const tickIntervals: [TimeUnit, number, number][] = [
+  ['second', 1, SECOND],
+  ['second', 5, 5 * SECOND],
+  ['second', 15, 15 * SECOND],
+  ['second', 30, 30 * SECOND],
+  ['minute', 1, MINUTE],
+  ['minute', 5, 5 * MINUTE],
+  ['minute', 15, 15 * MINUTE],
+  ['minute', 30, 30 * MINUTE],
+  ['hour', 1, HOUR],
+  ['hour', 3, 3 * HOUR],
+  ['hour', 6, 6 * HOUR],
+  ['hour', 12, 12 * HOUR],
+  ['day', 1, DAY],
+  ['day', 2, 2 * DAY],
+  ['week', 1, WEEK],
+  ['month', 1, MONTH],
+  ['month', 3, 3 * MONTH],
+  ['year', 1, YEAR],
+]
+
+/**
+ * This function returns the date rounded down to the beginning of the time interval,
+ * i.e. to the full hour or to the first day of the month.
+ * @param d Date
+ * @param unit Time unit.
+ * @param step Number of units in the interval (default `1`), i.e. `3` months for the quarters.
+ * @param utc If `true`, the UTC calendar is used instead of the local one.
+ */
+export function floorDate(d: Date, unit: TimeUnit, step: number = 1, utc: boolean = false): Date {
+  const f = (v: number, base: number = 0) => Math.floor((v - base) / step) * step + base
+  let y = utc ? d.getUTCFullYear() : d.getFullYear()
+  let mo = utc ? d.getUTCMonth() : d.getMonth()
+  let day = utc ? d.getUTCDate() : d.getDate()
+  let h = utc ? d.getUTCHours() : d.getHours()
+  let mi = utc ? d.getUTCMinutes() : d.getMinutes()
+  let sec = utc ? d.getUTCSeconds() : d.getSeconds()
+  switch (unit) {
+    case 'second':
+      sec = f(sec)
+      break
+    case 'minute':
+      mi = f(mi)
+      sec = 0
+      break
+    case 'hour':
+      h = f(h)
+      mi = sec = 0
+      break
+    case 'day':
+      day = f(day, 1)
+      h = mi = sec = 0
+      break
+    case 'week':
+      // weeks start on Sunday
+      day -= utc ? d.getUTCDay() : d.getDay()
+      h = mi = sec = 0
+      break
+    case 'month':
+      mo = f(mo)
+      day = 1
+      h = mi = sec = 0
+      break
+    case 'year':
+      y = f(y)
+      mo = 0
+      day = 1
+      h = mi = sec = 0
+      break
+  }
+  return utc ? new Date(Date.UTC(y, mo, day, h, mi, sec)) : new Date(y, mo, day, h, mi, sec)
+}
+
+/**
+ * This function returns the date moved by the given number of time units.
+ * @param d Date
+ * @param unit Time unit.
+ * @param step Number of units.
+ * @param utc If `true`, the UTC calendar is used instead of the local one.
+ */
+export function offsetDate(d: Date, unit: TimeUnit, step: number, utc: boolean = false): Date {
+  const r = new Date(d.getTime())
+  switch (unit) {
+    case 'second':
+      r.setTime(r.getTime() + step * SECOND)
+      break
+    case 'minute':
+      r.setTime(r.getTime() + step * MINUTE)
+      break
+    case 'hour':
+      // hours are counted in the absolute time, so the ticks are not doubled when the DST changes
+      r.setTime(r.getTime() + step * HOUR)
+      break
+    case 'day':
+    case 'week': {
+      const days = unit === 'week' ? step * 7 : step
+      if (utc) r.setUTCDate(r.getUTCDate() + days)
+      else r.setDate(r.getDate() + days)
+      break
+    }
+    case 'month':
+      if (utc) r.setUTCMonth(r.getUTCMonth() + step)
+      else r.setMonth(r.getMonth() + step)
+      break
+    case 'year':
+      if (utc) r.setUTCFullYear(r.getUTCFullYear() + step)
+      else r.setFullYear(r.getFullYear() + step)
+      break
+  }
+  return r
+}
+
+/**
+ * This function returns the dates between `start` and `end` aligned to the calendar.
+ * The time interval (seconds, minutes, hours, days, weeks, months, quarters or years)
+ * is chosen to get approximately `count` dates.
+ * @param start Start date.
+ * @param end End date.
+ * @param count Approximate number of the dates (default `10`.)
+ * @param utc If `true`, the UTC calendar is used instead of the local one.
+ */
+export function timeTicks(
+  start: Date,
+  end: Date,
+  count: number = 10,
+  utc: boolean = false
+): Date[] {
+  const t0 = Math.min(start.getTime(), end.getTime())
+  const t1 = Math.max(start.getTime(), end.getTime())
+  const target = (t1 - t0) / Math.max(count, 1)
+  let unit: TimeUnit
+  let step: number
+  const i = tickIntervals.findIndex((ti) => ti[2] >= target)
+  if (i === -1) {
+    unit = 'year'
+    step = Math.max(1, tickStep(0, target / YEAR, 1))
+  } else if (i === 0) {
+    unit = 'second'
+    step = 1
+  } else {
+    // the interval closer to the target (in the ratio) is chosen
+    const [prev, next] = [tickIntervals[i - 1], tickIntervals[i]]
+    ;[unit, step] = target / prev[2] < next[2] / target ? [prev[0], prev[1]] : [next[0], next[1]]
+  }
+  const ticks: Date[] = []
+  let d = floorDate(new Date(t0), unit, step, utc)
+  if (d.getTime() < t0) d = offsetDate(d, unit, step, utc)
+  while (d.getTime() <= t1 && ticks.length < 1000) {
+    ticks.push(d)
+    d = offsetDate(d, unit, step, utc)
+    // realign after the irregular months and DST changes
+    d = floorDate(d, unit, step, utc)
+    if (ticks.length > 0 && d.getTime() <= ticks[ticks.length - 1].getTime()) {
+      d = floorDate(offsetDate(d, unit, step * 2, utc), unit, step, utc)
+    }
+  }
+  return ticks
+}
+
+function createTimeScale(
+  dateMin: Date,
+  dateMax: Date,
+  resultMin: number,
+  resultMax: number,
+  utc: boolean
+): TimeScale {
+  const t0 = dateMin.getTime()
+  const t1 = dateMax.getTime()
+  const scale = linearScale(t0, t1, resultMin, resultMax)
+  const ts = ((d: Date) => scale(d.getTime())) as TimeScale
+  ts.invert = (v: number) => {
+    if (resultMin === resultMax) return new Date((t0 + t1) / 2)
+    return new Date(t0 + ((v - resultMin) / (resultMax - resultMin)) * (t1 - t0))
+  }
+  ts.ticks = (count: number = 10) => timeTicks(dateMin, dateMax, count, utc)
+  ts.domain = () => [new Date(t0), new Date(t1)]
+  ts.range = () => [resultMin, resultMax]
+  ts.utc = utc
+  return ts
+}
+
+/**
+ * This function returns a function which maps dates on the linear time scale.
+ * Unlike the {@link ordinalScale}, the irregular time series are placed according to the real time.
+ * The ticks are aligned to the local calendar.
+ *
+ * ```typescript
+ * const x = timeScale(new Date(2023, 0, 1), new Date(2023, 11, 31), 40, width - 20)
+ * for (const d of x.ticks(6)) text(d.toLocaleDateString(), x(d), height - 10)
+ * const hovered = x.invert(mouse.x)
+ * ```
+ * @param dateMin Start of the domain.
+ * @param dateMax End of the domain.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ */
+export function timeScale(
+  dateMin: Date,
+  dateMax: Date,
+  resultMin: number,
+  resultMax: number
+): TimeScale {
+  return createTimeScale(dateMin, dateMax, resultMin, resultMax, false)
+}
+
+/**
+ * This function works like the {@link timeScale}, but the ticks are aligned to the UTC calendar.
+ * @param dateMin Start of the domain.
+ * @param dateMax End of the domain.
+ * @param resultMin Minimum of the mapped result.
+ * @param resultMax Maximum of the mapped result.
+ */
+export function utcScale(
+  dateMin: Date,
+  dateMax: Date,
+  resultMin: number,
+  resultMax: number
+): TimeScale {
+  return createTimeScale(dateMin, dateMax, resultMin, resultMax, true)
+}
@@ -0,0 +1,338 @@
+'use strict'
+
+import { dva, mouse, restore, rotate, save, scale, translate } from './main'
+import { fill, ImgOrigin, noFill, noStroke, placeImage, stroke, strokeWidth } from './drawing'
+import { fontSize, text, textAlign, TextAlign, textBaseline, TextBaseline } from './typography'
+import { hit, hitTestAll } from './hit'
+
+/**
+ * Style of the {@link SceneNode}. The properties which are not defined are inherited
+ * from the parent node (or from the current settings for the root node.)
+ */
+export interface NodeStyle {
+  /**
+   * Fill color, or `null` for no fill.
+   */
+  fill?: string | null
+  /**
+   * Stroke color, or `null` for no stroke.
+   */
+  stroke?: string | null
+  /**
+   * Stroke width.
+   */
+  strokeWidth?: number
+  /**
+   * Opacity of the node and its children (between `0` and `1`.)
+   */
+  opacity?: number
+  /**
+   * Font size.
+   */
+  fontSize?: number
+}
+
+/**
+ * The `SceneNode` class is the base of the nodes of the retained scene tree: {@link Group},
+ * {@link ShapeNode}, {@link TextNode} and {@link ImageNode}. Every node has its own transformation
+ * and style, relative to its parent. The nodes can be rendered any number of times,
+ * i.e. inside a {@link Layer}, and found with the {@link Group.nodeAt} method.
+ */
+export class SceneNode {
+  /**
+   * Horizontal translation.
+   */
+  public x: number
+  /**
+   * Vertical translation.
+   */
+  public y: number
+  /**
+   * Rotation in radians.
+   */
+  public rotation: number
+  /**
+   * Horizontal scale.
+   */
+  public scaleX: number
+  /**
+   * Vertical scale.
+   */
+  public scaleY: number
+  /**
+   * Style of the node.
+   */
+  public style: NodeStyle
+  /**
+   * If `false`, the node is not rendered.
+   */
+  public visible: boolean
+  /**
+   * If `false`, the node is not registered for the hit testing.
+   */
+  public interactive: boolean
+  /**
+   * Any data attached to the node by user.
+   */
+  public data: unknown
+  /**
+   * Parent of the node, or `null` for the root node.
+   */
+  public parent: Group | null
+
+  /**
+   * @param style
+   */
+  constructor(style: NodeStyle = {}) {
+    this.x = 0
+    this.y = 0
+    this.rotation = 0
+    this.scaleX = 1
+    this.scaleY = 1
+    this.style = style
+    this.visible = true
+    this.interactive = true
+    this.data = undefined
+    this.parent = null
+  }
+
+  /**
+   * Sets the position of the node.
+   * @param x
+   * @param y
+   */
+  moveTo(x: number, y: number): this {
+    this.x = x
+    this.y = y
+    return this
+  }
+
+  /**
+   * Draws the node with its transformation and style.
+   */
+  render(): void {
+    if (!this.visible || !dva.ctx) return
+    const style = dva.getStyle()
+    const hitData = dva.hitData
+    save()
+    translate(this.x, this.y)
+    if (this.rotation !== 0) rotate(this.rotation)
+    if (this.scaleX !== 1 || this.scaleY !== 1) scale(this.scaleX, this.scaleY)
+    const s = this.style
+    if (s.fill === null) noFill()
+    else if (s.fill !== undefined) fill(s.fill)
+    if (s.stroke === null) noStroke()
+    else if (s.stroke !== undefined) stroke(s.stroke)
+    if (s.strokeWidth !== undefined) strokeWidth(s.strokeWidth)
+    if (s.opacity !== undefined) dva.ctx.globalAlpha *= s.opacity
+    if (s.fontSize !== undefined) fontSize(s.fontSize)
+    if (this.interactive) hit(this)
+    this.drawContent()
+    restore()
+    dva.setStyle(style)
+    dva.hitData = hitData
+  }
+
+  /**
+   * Draws the content of the node in its own coordinates. It is overridden by the specific nodes.
+   */
+  protected drawContent(): void {}
+}
+
+/**
+ * The `Group` node contains other nodes, which are rendered in the order they were added.
+ *
+ * ```typescript
+ * const chart = new Group()
+ * for (const d of data) {
+ *     const bar = new ShapeNode(() => rect(0, 0, 20, d.value), { fill: '#0072b2' })
+ *     bar.data = d
+ *     chart.add(bar.moveTo(x(d.name), 0))
+ * }
+ * chart.moveTo(40, 20)
+ *
+ * function draw() {
+ *     clear()
+ *     chart.render()
+ *     const node = chart.nodeAt()
+ *     if (node) tooltip(`${(node.data as Datum).name}: ${(node.data as Datum).value}`)
+ * }
+ * ```
+ */
+export class Group extends SceneNode {
+  /**
+   * Child nodes.
+   */
+  public children: SceneNode[]
+
+  /**
+   * @param style
+   */
+  constructor(style: NodeStyle = {}) {
+    super(style)
+    this.children = []
+    // the group itself is hit only through its children
+    this.interactive = false
+  }
+
+  /**
+   * Adds the nodes to the group.
+   * @param nodes
+   */
+  add(...nodes: SceneNode[]): this {
+    for (const n of nodes) {
+      if (n.parent) n.parent.remove(n)
+      n.parent = this
+      this.children.push(n)
+    }
+    return this
+  }
+
+  /**
+   * Removes the node from the group.
+   * @param node
+   */
+  remove(node: SceneNode): this {
+    this.children = this.children.filter((n) => n !== node)
+    if (node.parent === this) node.parent = null
+    return this
+  }
+
+  /**
+   * Returns the topmost node of this group (or of its subgroups) at the given position
+   * (by default at the mouse position), or `null` if there is no node. The group has to be
+   * rendered in the current frame.
+   * @param x
+   * @param y
+   */
+  nodeAt(x: number = mouse.x, y: number = mouse.y): SceneNode | null {
+    for (const d of hitTestAll(x, y)) {
+      if (!(d instanceof SceneNode)) continue
+      for (let n: SceneNode | null = d; n; n = n.parent) {
+        if (n === this) return d
+      }
+    }
+    return null
+  }
+
+  protected drawContent(): void {
+    for (const n of this.children) n.render()
+  }
+}
+
+/**
+ * The `ShapeNode` draws the shape with the drawing functions (i.e. {@link rect} or {@link circle})
+ * in the coordinates of the node.
+ */
+export class ShapeNode extends SceneNode {
+  /**
+   * Function drawing the shape.
+   */
+  public draw: () => void
+
+  /**
+   * @param draw Function drawing the shape.
+   * @param style
+   */
+  constructor(draw: () => void, style: NodeStyle = {}) {
+    super(style)
+    this.draw = draw
+  }
+
+  protected drawContent(): void {
+    this.draw()
+  }
+}
+
+/**
+ * The `TextNode` draws the text at the origin of the node. It is drawn with the fill color.
+ */
+export class TextNode extends SceneNode {
+  /**
+   * Content of the node.
+   */
+  public text: string
+  /**
+   * Alignment of the text (default `'left'`.)
+   */
+  public align: TextAlign
+  /**
+   * Baseline of the text (default `'alphabetic'`.)
+   */
+  public baseline: TextBaseline
+
+  /**
+   * @param content
+   * @param style
+   */
+  constructor(content: string, style: NodeStyle = {}) {
+    super(style)
+    this.text = content
+    this.align = 'left'
+    this.baseline = 'alphabetic'
+  }
+
+  protected drawContent(): void {
+    textAlign(this.align)
+    textBaseline(this.baseline)
+    text(this.text, 0, 0)
+    if (this.interactive && dva.ctx) {
+      // text is not a path, so its box is registered for the hit testing
+      const m = dva.ctx.measureText(this.text)
+      const left = -m.actualBoundingBoxLeft
+      const top = -m.actualBoundingBoxAscent
+      dva.beginPath()
+      dva.path.rect(left, top, m.width, m.actualBoundingBoxAscent + m.actualBoundingBoxDescent)
+      dva.registerHit(true, false)
+    }
+  }
+}
+
+/**
+ * The `ImageNode` places the preloaded image at the origin of the node.
+ */
+export class ImageNode extends SceneNode {
+  /**
+   * Preloaded image.
+   */
+  public img: HTMLImageElement
+  /**
+   * Location of the image origin (default `'left-top'`.)
+   */
+  public origin: ImgOrigin
+  /**
+   * Width of the image (default - the natural width.)
+   */
+  public w: number | undefined
+  /**
+   * Height of the image (default - the natural height.)
+   */
+  public h: number | undefined
+
+  /**
+   * @param img Preloaded image.
+   * @param w Width of the image.
+   * @param h Height of the image.
+   */
+  constructor(img: HTMLImageElement, w?: number, h?: number) {
+    super()
+    this.img = img
+    this.origin = 'left-top'
+    this.w = w
+    this.h = h
+  }
+
+  protected drawContent(): void {
+    placeImage(this.img, 0, 0, this.origin, this.w, this.h)
+    if (this.interactive) {
+      const w = this.w ?? this.img.naturalWidth
+      const h = this.h ?? this.img.naturalHeight
+      const [ox, oy] = this.origin.split('-')
+      const left = ox === 'left' ? 0 : ox === 'right' ? -w : -w / 2
+      const top = oy === 'top' ? 0 : oy === 'bottom' ? -h : -h / 2
+      dva.beginPath()
+      dva.path.rect(left, top, w, h)
+      dva.registerHit(true, false)
+    }
+  }
+}
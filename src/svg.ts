@@ -0,0 +1,510 @@
+'use strict'
+
+import { dva, renderTo } from './main'
+import { color2array } from './colors'
+import { TWO_PI } from './math'
+import { Matrix, VirtualContext, VirtualGradient } from './context'
+
+function num(v: number): string {
+  return String(Math.round(v * 1000) / 1000)
+}
+
+function pt(p: [number, number]): string {
+  return `${num(p[0])} ${num(p[1])}`
+}
+
+function attrs(a: Record<string, string | number>): string {
+  return Object.keys(a)
+    .map(
+      (k) => ` ${k}="${typeof a[k] === 'number' ? num(a[k] as number) : escapeXML(a[k] as string)}"`
+    )
+    .join('')
+}
+
+function escapeXML(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2] || 1
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ]
+}
+
+/**
+ * The `SVGContext` class is the render target which turns the drawing commands into SVG elements.
+ * It implements the part of the `CanvasRenderingContext2D` interface used by the drawing
+ * and typography functions, so it can be passed to {@link renderTo}.
+ * Usually, it is not used directly, but through the {@link exportSVG} function.
+ *
+ * ```typescript
+ * const svg = new SVGContext(width, height)
+ * renderTo(svg.context, () => {
+ *     rect(10, 10, 100, 50)
+ *     text('label', 10, 80)
+ * })
+ * const output = svg.toString()
+ * ```
+ */
+export class SVGContext extends VirtualContext {
+  private _elements: string[]
+  private _defs: string[]
+  private _ids: Map<string, string>
+  private _path: string
+  private _current: [number, number] | null
+  private _start: [number, number] | null
+  private _measure: CanvasRenderingContext2D | null
+
+  /**
+   * @param width Width of the SVG image.
+   * @param height Height of the SVG image.
+   */
+  constructor(width: number, height: number) {
+    super(width, height)
+    this._elements = []
+    this._defs = []
+    this._ids = new Map()
+    this._path = ''
+    this._current = null
+    this._start = null
+    // the text is measured with the canvas, if there is any
+    this._measure = dva && dva.ctx instanceof VirtualContext ? null : dva?.ctx ?? null
+  }
+
+  /* paths - the points are stored already transformed */
+
+  beginPath(): void {
+    this._path = ''
+    this._current = null
+    this._start = null
+  }
+
+  moveTo(x: number, y: number): void {
+    const p = this._point(x, y)
+    this._path += `M${num(p[0])} ${num(p[1])}`
+    this._current = p
+    this._start = p
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this._current) {
+      this.moveTo(x, y)
+      return
+    }
+    const p = this._point(x, y)
+    if (p[0] === this._current[0] && p[1] === this._current[1]) return
+    this._path += `L${num(p[0])} ${num(p[1])}`
+    this._current = p
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number
+  ): void {
+    if (!this._current) this.moveTo(cp1x, cp1y)
+    const c1 = this._point(cp1x, cp1y)
+    const c2 = this._point(cp2x, cp2y)
+    const p = this._point(x, y)
+    this._path += `C${pt(c1)} ${pt(c2)} ${pt(p)}`
+    this._current = p
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    if (!this._current) this.moveTo(cpx, cpy)
+    const c = this._point(cpx, cpy)
+    const p = this._point(x, y)
+    this._path += `Q${num(c[0])} ${num(c[1])} ${num(p[0])} ${num(p[1])}`
+    this._current = p
+  }
+
+  closePath(): void {
+    if (!this._current) return
+    this._path += 'Z'
+    this._current = this._start
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this.moveTo(x, y)
+    this.lineTo(x + w, y)
+    this.lineTo(x + w, y + h)
+    this.lineTo(x, y + h)
+    this.closePath()
+  }
+
+  arc(x: number, y: number, r: number, startAngle: number, endAngle: number, ccw = false): void {
+    this.ellipse(x, y, r, r, 0, startAngle, endAngle, ccw)
+  }
+
+  ellipse(
+    x: number,
+    y: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    ccw = false
+  ): void {
+    // the same sweep rules as in the canvas
+    let sweep = endAngle - startAngle
+    if (!ccw) {
+      sweep = sweep >= TWO_PI ? TWO_PI : ((sweep % TWO_PI) + TWO_PI) % TWO_PI
+    } else {
+      sweep = sweep <= -TWO_PI ? -TWO_PI : ((sweep % TWO_PI) - TWO_PI) % TWO_PI
+    }
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    const at = (a: number): [number, number] => {
+      const ex = rx * Math.cos(a)
+      const ey = ry * Math.sin(a)
+      return [x + ex * cos - ey * sin, y + ex * sin + ey * cos]
+    }
+    const derivative = (a: number): [number, number] => {
+      const dx = -rx * Math.sin(a)
+      const dy = ry * Math.cos(a)
+      return [dx * cos - dy * sin, dx * sin + dy * cos]
+    }
+    const start = at(startAngle)
+    this.lineTo(start[0], start[1])
+    // the arc is approximated with the cubic Bézier curves, up to a quarter of the turn each
+    const n = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9))
+    const step = sweep / n
+    const k = (4 / 3) * Math.tan(step / 4)
+    for (let i = 0; i < n; i++) {
+      const a0 = startAngle + step * i
+      const a1 = a0 + step
+      const p0 = at(a0)
+      const p1 = at(a1)
+      const d0 = derivative(a0)
+      const d1 = derivative(a1)
+      this.bezierCurveTo(
+        p0[0] + d0[0] * k,
+        p0[1] + d0[1] * k,
+        p1[0] - d1[0] * k,
+        p1[1] - d1[1] * k,
+        p1[0],
+        p1[1]
+      )
+    }
+  }
+
+  arcTo(x1: number, y1: number, x2: number, y2: number, r: number): void {
+    if (!this._current) this.moveTo(x1, y1)
+    const inv = invert(this._state.transform)
+    const c = this._current as [number, number]
+    const x0 = inv[0] * c[0] + inv[2] * c[1] + inv[4]
+    const y0 = inv[1] * c[0] + inv[3] * c[1] + inv[5]
+    const v1 = [x0 - x1, y0 - y1]
+    const v2 = [x2 - x1, y2 - y1]
+    const l1 = Math.hypot(v1[0], v1[1])
+    const l2 = Math.hypot(v2[0], v2[1])
+    const cross = v1[0] * v2[1] - v1[1] * v2[0]
+    if (r === 0 || l1 === 0 || l2 === 0 || Math.abs(cross) < 1e-9) {
+      this.lineTo(x1, y1)
+      return
+    }
+    const angle = Math.acos((v1[0] * v2[0] + v1[1] * v2[1]) / (l1 * l2))
+    const d = r / Math.tan(angle / 2)
+    const t1 = [x1 + (v1[0] / l1) * d, y1 + (v1[1] / l1) * d]
+    const t2 = [x1 + (v2[0] / l2) * d, y1 + (v2[1] / l2) * d]
+    // the center lies on the normal of the first tangent, on the side of the corner
+    const side = cross > 0 ? -1 : 1
+    const cx = t1[0] + (-v1[1] / l1) * r * side
+    const cy = t1[1] + (v1[0] / l1) * r * side
+    const a0 = Math.atan2(t1[1] - cy, t1[0] - cx)
+    const a1 = Math.atan2(t2[1] - cy, t2[0] - cx)
+    this.lineTo(t1[0], t1[1])
+    this.arc(cx, cy, r, a0, a1, cross > 0)
+  }
+
+  /* painting */
+
+  private _scale(): number {
+    const m = this._state.transform
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]))
+  }
+
+  private _paint(style: string | VirtualGradient, prefix: 'fill' | 'stroke'): string {
+    if (style instanceof VirtualGradient) {
+      const m = this._state.transform.map(num).join(' ')
+      const stops = style.stops
+        .map(([o, c]) => `<stop offset="${num(o)}"${this._color(c, 'stop')}/>`)
+        .join('')
+      const [x0, y0, r0, x1, y1, r1] = style.coords
+      const geometry: Record<string, number> =
+        style.type === 'linear'
+          ? { x1: x0, y1: y0, x2: r0, y2: x1 }
+          : { fx: x0, fy: y0, fr: r0, cx: x1, cy: y1, r: r1 }
+      const tag = style.type === 'linear' ? 'linearGradient' : 'radialGradient'
+      const id = this._def(
+        'g',
+        `<${tag} id="{id}"${attrs({
+          gradientUnits: 'userSpaceOnUse',
+          ...geometry,
+          gradientTransform: `matrix(${m})`,
+        })}>${stops}</${tag}>`
+      )
+      return ` ${prefix}="url(#${id})"`
+    }
+    // gradients and patterns of the canvas can not be read back
+    if (typeof style !== 'string') return ` ${prefix}="none"`
+    return this._color(style, prefix)
+  }
+
+  private _def(prefix: string, def: string): string {
+    // the same definitions are shared by the elements
+    let id = this._ids.get(def)
+    if (!id) {
+      id = `${prefix}${this._ids.size}`
+      this._ids.set(def, id)
+      this._defs.push(def.replace('{id}', id))
+    }
+    return id
+  }
+
+  private _color(c: string, prefix: 'fill' | 'stroke' | 'stop'): string {
+    const attr = prefix === 'stop' ? 'stop-color' : prefix
+    const opacity = prefix === 'stop' ? 'stop-opacity' : `${prefix}-opacity`
+    if (/^(#|rgba?\()/.test(c.trim())) {
+      const [r, g, b, a] = color2array(c.trim())
+      return ` ${attr}="rgb(${r}, ${g}, ${b})"` + (a < 1 ? ` ${opacity}="${num(a)}"` : '')
+    }
+    return ` ${attr}="${escapeXML(c)}"`
+  }
+
+  private _common(): string {
+    const s = this._state
+    let common = s.globalAlpha < 1 ? ` opacity="${num(s.globalAlpha)}"` : ''
+    const shadow = color2array(s.shadowColor)
+    if (shadow[3] > 0 && (s.shadowBlur > 0 || s.shadowOffsetX !== 0 || s.shadowOffsetY !== 0)) {
+      const id = this._def(
+        's',
+        `<filter id="{id}" x="-50%" y="-50%" width="200%" height="200%">` +
+          `<feDropShadow${attrs({
+            dx: s.shadowOffsetX,
+            dy: s.shadowOffsetY,
+            stdDeviation: s.shadowBlur / 2,
+            'flood-color': `rgb(${shadow[0]}, ${shadow[1]}, ${shadow[2]})`,
+            'flood-opacity': shadow[3],
+          })}/></filter>`
+      )
+      common += ` filter="url(#${id})"`
+    }
+    return common
+  }
+
+  private _strokeAttrs(k: number = this._scale()): string {
+    const s = this._state
+    let attrs = this._paint(s.strokeStyle, 'stroke')
+    attrs += ` stroke-width="${num(s.lineWidth * k)}"`
+    if (s.lineCap !== 'butt') attrs += ` stroke-linecap="${s.lineCap}"`
+    if (s.lineJoin !== 'miter') attrs += ` stroke-linejoin="${s.lineJoin}"`
+    if (s.miterLimit !== 4) attrs += ` stroke-miterlimit="${num(s.miterLimit)}"`
+    if (s.lineDash.length > 0) {
+      attrs += ` stroke-dasharray="${s.lineDash.map((v) => num(v * k)).join(' ')}"`
+      if (s.lineDashOffset !== 0) attrs += ` stroke-dashoffset="${num(s.lineDashOffset * k)}"`
+    }
+    return attrs
+  }
+
+  fill(): void {
+    if (!this._path) return
+    this._elements.push(
+      `<path d="${this._path}"${this._paint(this._state.fillStyle, 'fill')}${this._common()}/>`
+    )
+  }
+
+  stroke(): void {
+    if (!this._path) return
+    this._elements.push(
+      `<path d="${this._path}" fill="none"${this._strokeAttrs()}${this._common()}/>`
+    )
+  }
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    const path = this._path
+    const current = this._current
+    this.beginPath()
+    this.rect(x, y, w, h)
+    this.fill()
+    this._path = path
+    this._current = current
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number): void {
+    const path = this._path
+    const current = this._current
+    this.beginPath()
+    this.rect(x, y, w, h)
+    this.stroke()
+    this._path = path
+    this._current = current
+  }
+
+  clearRect(x: number, y: number, w: number, h: number): void {
+    // the SVG elements can not be erased partially, so only clearing of the whole image is supported
+    const p0 = this._point(x, y)
+    const p1 = this._point(x + w, y + h)
+    if (
+      Math.min(p0[0], p1[0]) <= 0 &&
+      Math.min(p0[1], p1[1]) <= 0 &&
+      Math.max(p0[0], p1[0]) >= this.width &&
+      Math.max(p0[1], p1[1]) >= this.height
+    ) {
+      this._elements = []
+    }
+  }
+
+  isPointInPath(): boolean {
+    return false
+  }
+
+  isPointInStroke(): boolean {
+    return false
+  }
+
+  /* text */
+
+  measureText(text: string): TextMetrics {
+    if (!this._measure) return super.measureText(text)
+    this._measure.save()
+    this._measure.font = this._state.font
+    const m = this._measure.measureText(text)
+    this._measure.restore()
+    return m
+  }
+
+  private _text(text: string, x: number, y: number, paint: string): void {
+    const s = this._state
+    const anchor =
+      s.textAlign === 'center'
+        ? 'middle'
+        : s.textAlign === 'right' || s.textAlign === 'end'
+        ? 'end'
+        : 'start'
+    const baselines: Record<string, string> = {
+      top: 'text-before-edge',
+      hanging: 'hanging',
+      middle: 'central',
+      alphabetic: 'alphabetic',
+      ideographic: 'ideographic',
+      bottom: 'text-after-edge',
+    }
+    const baseline = baselines[s.textBaseline] ?? 'alphabetic'
+    const m = s.transform.map(num).join(' ')
+    this._elements.push(
+      `<text${attrs({
+        x,
+        y,
+        transform: `matrix(${m})`,
+        style: `font: ${s.font}; white-space: pre`,
+        'text-anchor': anchor,
+        'dominant-baseline': baseline,
+      })}${paint}${this._common()}>${escapeXML(text)}</text>`
+    )
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    this._text(text, x, y, this._paint(this._state.fillStyle, 'fill'))
+  }
+
+  strokeText(text: string, x: number, y: number): void {
+    // the text element has its own transformation, so the stroke is not scaled
+    this._text(text, x, y, ` fill="none"${this._strokeAttrs(1)}`)
+  }
+
+  /* images */
+
+  drawImage(
+    img: HTMLImageElement | HTMLCanvasElement,
+    x: number,
+    y: number,
+    w?: number,
+    h?: number
+  ): void {
+    let href = ''
+    if ('toDataURL' in img) {
+      href = img.toDataURL()
+      w = w ?? this.width
+      h = h ?? this.height
+    } else {
+      href = img.src
+      w = w ?? img.naturalWidth
+      h = h ?? img.naturalHeight
+    }
+    if (w < 0) {
+      x += w
+      w = -w
+    }
+    if (h < 0) {
+      y += h
+      h = -h
+    }
+    const m = this._state.transform.map(num).join(' ')
+    this._elements.push(
+      `<image${attrs({
+        href,
+        x,
+        y,
+        width: w,
+        height: h,
+        transform: `matrix(${m})`,
+        preserveAspectRatio: 'none',
+      })}${this._common()}/>`
+    )
+  }
+
+  /**
+   * Returns the SVG document with everything drawn so far.
+   */
+  toString(): string {
+    const defs = this._defs.length > 0 ? `<defs>${this._defs.join('')}</defs>` : ''
+    return (
+      `<svg${attrs({
+        xmlns: 'http://www.w3.org/2000/svg',
+        width: this.width,
+        height: this.height,
+        viewBox: `0 0 ${num(this.width)} ${num(this.height)}`,
+      })}>` +
+      defs +
+      this._elements.join('') +
+      '</svg>'
+    )
+  }
+}
+
+/**
+ * This function draws the current frame again with the SVG backend, and returns it as the SVG string.
+ * The shapes, texts, gradients, dashes, shadows and transformations are turned into the SVG elements,
+ * so the output can be scaled without the loss of quality, i.e. for the reports or print.
+ *
+ * ```typescript
+ * function events() {
+ *     keyboard.bind('mod+s', () => {
+ *         const blob = new Blob([exportSVG()], { type: 'image/svg+xml' })
+ *         // ...
+ *     }, { preventDefault: true })
+ * }
+ * ```
+ * @param draw Function drawing the image (default - the `draw` function of the visualization.)
+ */
+export function exportSVG(draw?: () => void): string {
+  const svg = new SVGContext(dva.width, dva.height)
+  const fn = draw ?? dva.draw
+  if (fn) renderTo(svg.context, fn)
+  return svg.toString()
+}
@@ -0,0 +1,100 @@
+'use strict'
+
+import { dva, height, mouse, width } from './main'
+import { color2rgba } from './colors'
+import { text, textDim } from './typography'
+import { constrain } from './math'
+
+/**
+ * Options of the {@link tooltip}.
+ */
+export interface TooltipOptions {
+  /**
+   * Background color (default `'#ffffff'`.)
+   */
+  background?: string
+  /**
+   * Text color (default `'#1c1917'`.)
+   */
+  color?: string
+  /**
+   * Border color, or `null` for no border (default `'#a8a29e'`.)
+   */
+  border?: string | null
+  /**
+   * Space between the border and the text (default `6`.)
+   */
+  padding?: number
+  /**
+   * Corner radius (default `4`.)
+   */
+  radius?: number
+  /**
+   * Distance from the anchor point (default `12`.)
+   */
+  offset?: number
+  /**
+   * If `true` (default), the box casts a shadow.
+   */
+  shadow?: boolean
+}
+
+/**
+ * This function draws the tooltip box with the text next to the given point (by default the mouse position).
+ * The box is placed below and on the right of the point, but it is moved to the other side
+ * if it would not fit on the canvas. The text is drawn with the current font, and can have
+ * several lines separated by `\n`. Call it at the end of the `draw` function, so it is on the top.
+ * @param content Text of the tooltip.
+ * @param x X coordinate of the anchor point.
+ * @param y Y coordinate of the anchor point.
+ * @param options
+ */
+export function tooltip(
+  content: string,
+  x: number = mouse.x,
+  y: number = mouse.y,
+  options: TooltipOptions = {}
+): void {
+  const ctx = dva.ctx
+  if (!ctx) return
+  const padding = options.padding ?? 6
+  const offset = options.offset ?? 12
+  const r = options.radius ?? 4
+  const border = options.border === undefined ? '#a8a29e' : options.border
+  ctx.save()
+  const dim = textDim(content)
+  const w = dim.w + padding * 2
+  const h = dim.h + padding * 2
+  let bx = x + offset
+  let by = y + offset
+  if (bx + w > width) bx = x - offset - w
+  if (by + h > height) by = y - offset - h
+  bx = constrain(bx, 0, Math.max(0, width - w))
+  by = constrain(by, 0, Math.max(0, height - h))
+  ctx.beginPath()
+  ctx.moveTo(bx + r, by)
+  ctx.arcTo(bx + w, by, bx + w, by + h, r)
+  ctx.arcTo(bx + w, by + h, bx, by + h, r)
+  ctx.arcTo(bx, by + h, bx, by, r)
+  ctx.arcTo(bx, by, bx + w, by, r)
+  ctx.closePath()
+  if (options.shadow ?? true) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.2)'
+    ctx.shadowBlur = 6
+    ctx.shadowOffsetY = 2
+  }
+  ctx.fillStyle = color2rgba(options.background ?? '#ffffff')
+  ctx.fill()
+  ctx.shadowColor = 'transparent'
+  if (border) {
+    ctx.lineWidth = 1
+    ctx.setLineDash([])
+    ctx.strokeStyle = color2rgba(border)
+    ctx.stroke()
+  }
+  ctx.fillStyle = color2rgba(options.color ?? '#1c1917')
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'top'
+  text(content, bx + padding, by + padding)
+  ctx.restore()
+}
@@ -0,0 +1,394 @@
+'use strict'
+
+import { animation, redraw } from './main'
+import { Vector } from './math'
+import { color2array, color2rgba } from './colors'
+import { EasingFunction, EasingName, easings } from './easing'
+
+/**
+ * Options of the tween (see {@link tween}.)
+ */
+export interface TweenOptions<T> {
+  /**
+   * Target values of the animated properties.
+   * Numbers, {@link Vector | vectors}, colors and arrays of numbers can be animated.
+   */
+  to: Partial<T>
+  /**
+   * Duration in milliseconds (default `500`.)
+   */
+  duration?: number
+  /**
+   * Easing function or its name (default `'easeInOutCubic'`.)
+   */
+  easing?: EasingName | EasingFunction
+  /**
+   * Delay in milliseconds before the tween starts (default `0`.)
+   */
+  delay?: number
+  /**
+   * Number of repetitions after the first run. Use `Infinity` to repeat forever (default `0`.)
+   */
+  repeat?: number
+  /**
+   * If `true`, every second repetition runs backwards.
+   */
+  yoyo?: boolean
+  /**
+   * Function called after every update of the animated object.
+   */
+  update?: (target: T) => void
+  /**
+   * Function called when the tween is completed.
+   */
+  complete?: (target: T) => void
+}
+
+type Interpolator = (p: number) => unknown
+
+/**
+ * This function returns the function interpolating between two values.
+ * Numbers, {@link Vector | vectors}, colors (hex, `rgb()` or `rgba()` strings) and arrays of numbers are supported.
+ * Other values are switched at the end.
+ * @param a Start value.
+ * @param b End value.
+ */
+export function interpolate(a: unknown, b: unknown): (p: number) => unknown {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (p: number) => a + (b - a) * p
+  }
+  if (a instanceof Vector && b instanceof Vector) {
+    const v = a.copy()
+    return (p: number) => {
+      v.set(a.x + (b.x - a.x) * p, a.y + (b.y - a.y) * p)
+      return v
+    }
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const c1 = color2array(a)
+    const c2 = color2array(b)
+    return (p: number) => {
+      const c = c1.map((v, i) => v + (c2[i] - v) * p)
+      return color2rgba([Math.round(c[0]), Math.round(c[1]), Math.round(c[2])], c[3])
+    }
+  }
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return (p: number) => a.map((v: number, i: number) => v + (b[i] - v) * p)
+  }
+  return (p: number) => (p < 1 ? a : b)
+}
+
+/**
+ * The `Tween` class animates properties of the object from their current values to the target ones.
+ * It is created with the {@link tween} function, and advanced with the {@link AnimationCtrl} time.
+ */
+export class Tween<T extends object> {
+  /**
+   * Animated object.
+   */
+  public target: T
+  /**
+   * Promise resolved with the animated object when the tween is completed.
+   * It is not resolved if the tween is stopped.
+   */
+  public finished: Promise<T>
+  /**
+   * Returns `true` until the tween is completed or stopped.
+   */
+  public isActive: boolean
+  private _options: TweenOptions<T>
+  private _duration: number
+  private _easing: EasingFunction
+  private _repeat: number
+  private _start: number | null
+  private _interpolators: [string, Interpolator][] | null
+  private _resolve: (target: T) => void = () => {}
+
+  /**
+   * @param target Animated object.
+   * @param options
+   */
+  constructor(target: T, options: TweenOptions<T>) {
+    this.target = target
+    this.isActive = true
+    this._options = options
+    this._duration = Math.max(options.duration ?? 500, 0)
+    const easing = options.easing ?? 'easeInOutCubic'
+    this._easing = typeof easing === 'function' ? easing : easings[easing]
+    this._repeat = options.repeat ?? 0
+    this._start = null
+    this._interpolators = null
+    this.finished = new Promise<T>((resolve) => {
+      this._resolve = resolve
+    })
+  }
+
+  /**
+   * Sets the start time of the tween. The delay is added to it.
+   * @param time Animation time in milliseconds.
+   */
+  public startAt(time: number): void {
+    this._start = time + (this._options.delay ?? 0)
+  }
+
+  /**
+   * Total duration of the tween in milliseconds, including the delay and repetitions.
+   */
+  get totalDuration(): number {
+    return (this._options.delay ?? 0) + this._duration * (this._repeat + 1)
+  }
+
+  /**
+   * Updates the animated object for the given animation time.
+   * @param time Animation time in milliseconds.
+   */
+  public update(time: number): void {
+    if (!this.isActive) return
+    if (this._start == null) this.startAt(time)
+    const elapsed = time - (this._start as number)
+    if (elapsed < 0) return
+    if (this._interpolators == null) {
+      // the start values are taken when the tween starts, so the chained tweens continue smoothly
+      const obj = this.target as Record<string, unknown>
+      this._interpolators = Object.keys(this._options.to).map((k) => [
+        k,
+        interpolate(
+          obj[k] instanceof Vector ? (obj[k] as Vector).copy() : obj[k],
+          (this._options.to as Record<string, unknown>)[k]
+        ),
+      ])
+    }
+    const total = this._duration * (this._repeat + 1)
+    if (elapsed >= total) {
+      const reversed = !!this._options.yoyo && this._repeat % 2 === 1
+      this._apply(reversed ? 0 : 1)
+      this.isActive = false
+      if (this._options.complete) this._options.complete(this.target)
+      this._resolve(this.target)
+    } else {
+      const iteration = Math.floor(elapsed / this._duration)
+      let p = (elapsed - iteration * this._duration) / this._duration
+      if (this._options.yoyo && iteration % 2 === 1) p = 1 - p
+      this._apply(this._easing(p))
+    }
+  }
+
+  private _apply(p: number): void {
+    const obj = this.target as Record<string, unknown>
+    for (const [k, f] of this._interpolators ?? []) {
+      obj[k] = f(p)
+    }
+    if (this._options.update) this._options.update(this.target)
+  }
+
+  /**
+   * Stops the tween. The animated object keeps its current values.
+   */
+  public stop(): void {
+    this.isActive = false
+  }
+
+  /**
+   * Returns the copy of the tween in its current state. It animates the same object,
+   * but it does not call the `update` and `complete` functions, and it does not resolve
+   * the {@link finished} promise.
+   * @param timeShift Shift of the start time, so the copy can run on another clock.
+   * @ignore
+   */
+  public clone(timeShift: number = 0): Tween<T> {
+    const t = new Tween(this.target, { ...this._options, update: undefined, complete: undefined })
+    t.isActive = this.isActive
+    t._start = this._start == null ? null : this._start + timeShift
+    t._interpolators = this._interpolators
+    return t
+  }
+
+  /**
+   * Saves the current values of the animated properties, and returns the function restoring them.
+   * @ignore
+   */
+  public saveTarget(): () => void {
+    const obj = this.target as Record<string, unknown>
+    const saved = Object.keys(this._options.to).map((k): [string, unknown, unknown] => {
+      const v = obj[k]
+      return [k, v, v instanceof Vector ? v.copy() : v]
+    })
+    return () => {
+      for (const [k, v, copy] of saved) {
+        // the vectors are restored in place, there can be other references to them
+        if (v instanceof Vector && copy instanceof Vector) v.set(copy.x, copy.y)
+        obj[k] = v
+      }
+    }
+  }
+}
+
+/**
+ * The `Tweens` class keeps all the tweens of the animation, and updates them every frame.
+ * There is always one instance created for the {@link AnimationCtrl},
+ * and stored in its `tweens` property.
+ */
+export class Tweens {
+  private _list: Tween<object>[]
+
+  constructor() {
+    this._list = []
+  }
+
+  /**
+   * Adds the tween, which starts at the given animation time.
+   * @param t
+   * @param time Animation time in milliseconds.
+   */
+  public add<T extends object>(t: Tween<T>, time: number): Tween<T> {
+    t.startAt(time)
+    this._list.push(t as unknown as Tween<object>)
+    return t
+  }
+
+  /**
+   * Updates all the tweens and removes the completed ones.
+   * @param time Animation time in milliseconds.
+   */
+  public update(time: number): void {
+    for (const t of this._list.slice()) t.update(time)
+    this._list = this._list.filter((t) => t.isActive)
+  }
+
+  /**
+   * Stops all the tweens of the given object, or all the tweens if the object is not provided.
+   * @param target
+   */
+  public stop(target?: object): void {
+    for (const t of this._list) {
+      if (target === undefined || t.target === target) t.stop()
+    }
+    this._list = this._list.filter((t) => t.isActive)
+  }
+
+  /**
+   * Returns the copies of all the tweens (see {@link Tween.clone}), so they can be advanced
+   * without affecting the original ones.
+   * @param timeShift Shift of the start times of the copies.
+   * @ignore
+   */
+  public clone(timeShift: number = 0): Tweens {
+    const c = new Tweens()
+    c._list = this._list.map((t) => t.clone(timeShift))
+    return c
+  }
+
+  /**
+   * Saves the current values of the properties animated by all the tweens,
+   * and returns the function restoring them.
+   * @ignore
+   */
+  public saveTargets(): () => void {
+    // restored in the reverse order, so the value before the first tween wins
+    const restore = this._list.map((t) => t.saveTarget()).reverse()
+    return () => restore.forEach((r) => r())
+  }
+
+  /**
+   * Returns `true` if there is any active tween.
+   */
+  get active(): boolean {
+    return this._list.length > 0
+  }
+}
+
+/**
+ * This function animates the properties of the object from their current values to the target ones.
+ * The tween is driven by the {@link animation} time, so it runs together with the `draw` function.
+ *
+ * ```typescript
+ * const bar = { h: 0, color: '#65a30d' }
+ *
+ * function setup() {
+ *     tween(bar, { to: { h: 120, color: '#912222' }, duration: 800, easing: 'easeOutBounce' })
+ *         .finished.then(() => print('done'))
+ * }
+ *
+ * function draw() {
+ *     clear()
+ *     fill(bar.color)
+ *     rect(20, height - bar.h, 40, bar.h)
+ * }
+ * ```
+ * @param target Animated object.
+ * @param options
+ */
+export function tween<T extends object>(target: T, options: TweenOptions<T>): Tween<T> {
+  const t = animation.tweens.add(new Tween(target, options), animation.time)
+  redraw()
+  return t
+}
+
+/**
+ * The `Timeline` class is used to sequence the tweens. It is created with the {@link timeline} function.
+ *
+ * ```typescript
+ * timeline()
+ *     .add(bar1, { to: { h: 100 }, duration: 300 })
+ *     .add(bar2, { to: { h: 80 }, duration: 300 })
+ *     .add(label, { to: { alpha: 1 } }, 0) // starts together with the first one
+ *     .finished.then(() => print('all done'))
+ * ```
+ */
+export class Timeline {
+  private _start: number
+  private _end: number
+  private _tweens: Tween<object>[]
+
+  /**
+   * @param time Animation time in milliseconds, at which the timeline starts.
+   */
+  constructor(time: number) {
+    this._start = time
+    this._end = 0
+    this._tweens = []
+  }
+
+  /**
+   * Adds the tween to the timeline. By default, it starts when all the previously added tweens end.
+   * @param target Animated object.
+   * @param options
+   * @param at Start of the tween in milliseconds relative to the start of the timeline.
+   */
+  public add<T extends object>(target: T, options: TweenOptions<T>, at?: number): Timeline {
+    const offset = at ?? this._end
+    const t = animation.tweens.add(new Tween(target, options), this._start + offset)
+    this._end = Math.max(this._end, offset + t.totalDuration)
+    this._tweens.push(t as unknown as Tween<object>)
+    redraw()
+    return this
+  }
+
+  /**
+   * Stops all the tweens of the timeline.
+   */
+  public stop(): void {
+    for (const t of this._tweens) t.stop()
+  }
+
+  /**
+   * Duration of the timeline in milliseconds.
+   */
+  get duration(): number {
+    return this._end
+  }
+
+  /**
+   * Promise resolved when all the tweens of the timeline are completed.
+   */
+  get finished(): Promise<void> {
+    return Promise.all(this._tweens.map((t) => t.finished)).then(() => undefined)
+  }
+}
+
+/**
+ * This function creates a new {@link Timeline} starting at the current animation time.
+ */
+export function timeline(): Timeline {
+  return new Timeline(animation.time)
+}
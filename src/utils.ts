@@ -1,5 +1,8 @@
 'use strict'
 
+import { createObjectURL } from './assets'
+import { env } from './env'
+
 /**
  * his function, if called with arguments, is an alias of `console.log`.
  * Without arguments, is an alias of `window.print`.
@@ -42,8 +45,8 @@ export function print(...items: any) {
  * @param svg
  */
 export function svg2img(svg: string): HTMLImageElement {
-  const img = new Image()
+  const img = env.createImage()
   const blob = new Blob([svg], { type: 'image/svg+xml' })
-  img.src = URL.createObjectURL(blob)
+  img.src = createObjectURL(blob)
   return img
 }
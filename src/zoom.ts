@@ -0,0 +1,274 @@
+'use strict'
+
+import { currentState, dva, InputScope, scale, translate, withState } from './main'
+import { constrain, Vector } from './math'
+import { PanGesture, PinchGesture, PointerInfo, Pointers } from './pointer'
+
+/**
+ * Options of the {@link ZoomPan} controller.
+ */
+export interface ZoomPanOptions {
+  /**
+   * Minimum scale (default `1`.)
+   */
+  minScale?: number
+  /**
+   * Maximum scale (default `Infinity`.)
+   */
+  maxScale?: number
+  /**
+   * Area in the data space `[x0, y0, x1, y1]` which can be viewed. Panning and zooming out
+   * is limited, so the view does not leave this area. By default, there is no limit.
+   */
+  extent?: [number, number, number, number]
+  /**
+   * Zoom speed of the mouse wheel (default `0.002`.)
+   */
+  wheelSpeed?: number
+  /**
+   * If `false`, the mouse wheel does not zoom.
+   */
+  wheel?: boolean
+  /**
+   * If `false`, the view can not be panned by dragging.
+   */
+  drag?: boolean
+  /**
+   * If `false`, the view can not be zoomed and panned with two fingers.
+   */
+  pinch?: boolean
+}
+
+/**
+ * The `ZoomPan` class keeps the view transformation (scale `k` and translation `x`, `y`)
+ * and updates it with the mouse wheel, dragging and the pinch gesture.
+ * The point in the data space `(dx, dy)` is drawn on the screen at `(dx * k + x, dy * k + y)`.
+ * #### Usage example
+ *
+ * ```typescript
+ * let zoom: ZoomPan
+ *
+ * function setup() {
+ *     createCanvas(document.getElementById('canvas-container')!)
+ *     zoom = new ZoomPan(canvas()!, { minScale: 1, maxScale: 20, extent: [0, 0, width, height] })
+ * }
+ *
+ * function draw() {
+ *     clear()
+ *     save()
+ *     zoom.applyTransform()
+ *     for (const p of points) circle(p.x, p.y, 3 / zoom.k)
+ *     restore()
+ *     const d = zoom.invert(mouse.x, mouse.y)
+ *     text(`${round(d.x)}, ${round(d.y)}`, 10, 20)
+ * }
+ * ```
+ */
+export class ZoomPan {
+  /**
+   * Current scale.
+   */
+  public k: number
+  /**
+   * Current horizontal translation.
+   */
+  public x: number
+  /**
+   * Current vertical translation.
+   */
+  public y: number
+  /**
+   * Minimum scale.
+   */
+  public minScale: number
+  /**
+   * Maximum scale.
+   */
+  public maxScale: number
+  /**
+   * Area in the data space `[x0, y0, x1, y1]` which can be viewed, or `null` if there is no limit.
+   */
+  public extent: [number, number, number, number] | null
+  /**
+   * Zoom speed of the mouse wheel.
+   */
+  public wheelSpeed: number
+  /**
+   * This function may be defined by user. It is called every time the transformation changes.
+   */
+  public change: ((z: ZoomPan) => void) | null
+  private _canvas: HTMLCanvasElement
+  private _scope: InputScope
+  private _pointers: Pointers
+  private _last: Map<number, Vector>
+  private _wheel: boolean
+  private _drag: boolean
+  private _pinch: boolean
+
+  /**
+   * The event handlers, including the `change` callback, are executed with the visualization
+   * active when the controller is created (see {@link DVAInstance.zoomPan}.)
+   * @param canvas HTML5 Canvas element with the visualization (default - the current canvas.)
+   * @param options
+   */
+  constructor(canvas: HTMLCanvasElement = dva.canvas, options: ZoomPanOptions = {}) {
+    this._canvas = canvas
+    const state = currentState()
+    this._scope = (fn) => withState(state, fn)
+    this.k = 1
+    this.x = 0
+    this.y = 0
+    this.minScale = options.minScale ?? 1
+    this.maxScale = options.maxScale ?? Infinity
+    this.extent = options.extent ?? null
+    this.wheelSpeed = options.wheelSpeed ?? 0.002
+    this.change = null
+    this._wheel = options.wheel ?? true
+    this._drag = options.drag ?? true
+    this._pinch = options.pinch ?? true
+    this._last = new Map()
+    this._pointers = new Pointers(canvas, this._scope)
+    this._pointers.down = this._onPointerDown
+    this._pointers.move = this._onPointerMove
+    this._pointers.up = this._onPointerUp
+    this._pointers.pinch = this._onPinch
+    this._pointers.pan = this._onPan
+    this._canvas.addEventListener('wheel', this._onWheel, { passive: false })
+  }
+
+  private _onWheel = (e: WheelEvent) =>
+    this._scope(() => {
+      if (!this._wheel) return
+      e.preventDefault()
+      // deltaMode 1 - lines, 2 - pages
+      const d = e.deltaY * (e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? 400 : 1)
+      const bbox = this._canvas.getBoundingClientRect()
+      this.zoomAt(e.clientX - bbox.left, e.clientY - bbox.top, Math.pow(2, -d * this.wheelSpeed))
+    })
+
+  private _onPointerDown = (p: PointerInfo) => {
+    this._last.set(p.id, p.pos.copy())
+  }
+
+  private _onPointerMove = (p: PointerInfo) => {
+    const last = this._last.get(p.id)
+    if (!last || !p.isDown) return
+    // the two-finger movement is handled by the pan gesture
+    if (this._drag && this._pointers.list.filter((q) => q.isDown).length === 1) {
+      this.panBy(p.x - last.x, p.y - last.y)
+    }
+    last.set(p.x, p.y)
+  }
+
+  private _onPointerUp = (p: PointerInfo) => {
+    this._last.delete(p.id)
+  }
+
+  private _onPinch = (g: PinchGesture) => {
+    if (this._pinch) this.zoomAt(g.center.x, g.center.y, g.scale)
+  }
+
+  private _onPan = (g: PanGesture) => {
+    if (this._pinch) this.panBy(g.delta.x, g.delta.y)
+  }
+
+  /**
+   * Applies the view transformation to the canvas. Use it between {@link save} and {@link restore}.
+   */
+  applyTransform(): void {
+    translate(this.x, this.y)
+    scale(this.k, this.k)
+  }
+
+  /**
+   * Maps the screen coordinates back to the data space (i.e. for the hit testing.)
+   * @param x X screen coordinate.
+   * @param y Y screen coordinate.
+   */
+  invert(x: number, y: number): Vector {
+    return new Vector((x - this.x) / this.k, (y - this.y) / this.k)
+  }
+
+  /**
+   * Maps the data space coordinates to the screen.
+   * @param x X data coordinate.
+   * @param y Y data coordinate.
+   */
+  apply(x: number, y: number): Vector {
+    return new Vector(x * this.k + this.x, y * this.k + this.y)
+  }
+
+  /**
+   * Zooms the view by the given factor, keeping the point `(x, y)` on the screen in place.
+   * @param x X screen coordinate.
+   * @param y Y screen coordinate.
+   * @param factor Scale multiplier.
+   */
+  zoomAt(x: number, y: number, factor: number): void {
+    const k = constrain(this.k * factor, this.minScale, this.maxScale)
+    const p = this.invert(x, y)
+    this.k = k
+    this.x = x - p.x * k
+    this.y = y - p.y * k
+    this._update()
+  }
+
+  /**
+   * Moves the view by the given distance on the screen.
+   * @param dx Horizontal distance.
+   * @param dy Vertical distance.
+   */
+  panBy(dx: number, dy: number): void {
+    this.x += dx
+    this.y += dy
+    this._update()
+  }
+
+  /**
+   * Sets the transformation directly.
+   * @param k Scale.
+   * @param x Horizontal translation.
+   * @param y Vertical translation.
+   */
+  setTransform(k: number, x: number, y: number): void {
+    this.k = constrain(k, this.minScale, this.maxScale)
+    this.x = x
+    this.y = y
+    this._update()
+  }
+
+  /**
+   * Restores the identity transformation.
+   */
+  reset(): void {
+    this.setTransform(1, 0, 0)
+  }
+
+  private _update(): void {
+    if (this.extent) {
+      // the same rule as in d3-zoom: the view is kept inside the extent,
+      // or centered if the extent is smaller than the view
+      const [ex0, ey0, ex1, ey1] = this.extent
+      const v0 = this.invert(0, 0)
+      const v1 = this.invert(this._canvas.clientWidth, this._canvas.clientHeight)
+      const dx0 = v0.x - ex0
+      const dx1 = v1.x - ex1
+      const dy0 = v0.y - ey0
+      const dy1 = v1.y - ey1
+      const tx = dx1 > dx0 ? (dx0 + dx1) / 2 : Math.min(0, dx0) || Math.max(0, dx1)
+      const ty = dy1 > dy0 ? (dy0 + dy1) / 2 : Math.min(0, dy0) || Math.max(0, dy1)
+      this.x += tx * this.k
+      this.y += ty * this.k
+    }
+    if (this.change != null) this.change(this)
+  }
+
+  /**
+   * Removes all the event listeners attached to the canvas.
+   */
+  dispose(): void {
+    this._canvas.removeEventListener('wheel', this._onWheel)
+    this._pointers.dispose()
+    this._last.clear()
+  }
+}
@@ -0,0 +1,56 @@
+'use strict'
+
+const test = require('node:test')
+const assert = require('node:assert')
+const {
+  compareRecordings,
+  fill,
+  headlessCanvas,
+  record,
+  recordingsEqual,
+  RecordingContext,
+  rect,
+  setEnvironment,
+} = require('../dist')
+
+setEnvironment({ createCanvas: (w, h) => new RecordingContext(w, h).canvas })
+headlessCanvas(400, 300)
+
+const draw = (x) => () => {
+  fill('#ff0000')
+  rect(x, 10, 20, 20)
+}
+
+test('record returns the same commands for the same drawing', () => {
+  const commands = record(draw(10))
+  assert.ok(commands.length > 0)
+  assert.deepStrictEqual(compareRecordings(commands, record(draw(10))), [])
+  assert.deepStrictEqual(JSON.parse(JSON.stringify(commands)), commands)
+})
+
+test('compareRecordings compares the numbers with the tolerance', () => {
+  const expected = record(draw(10))
+  assert.ok(recordingsEqual(expected, record(draw(10.005)), 0.01))
+  const diff = compareRecordings(expected, record(draw(10.5)), 0.01)
+  assert.ok(diff.length > 0)
+  assert.ok(diff.every((d) => /^args\[\d+\]$/.test(d.path)))
+})
+
+test('compareRecordings reports a missing command', () => {
+  const expected = record(draw(10))
+  const diff = compareRecordings(expected, expected.slice(0, -1))
+  assert.strictEqual(diff.length, 1)
+  assert.strictEqual(diff[0].index, expected.length - 1)
+  assert.strictEqual(diff[0].actual, undefined)
+})
+
+test('compareRecordings reports a state difference', () => {
+  const expected = record(draw(10))
+  const actual = record(() => {
+    fill('#0000ff')
+    rect(10, 10, 20, 20)
+  })
+  const diff = compareRecordings(expected, actual)
+  assert.ok(diff.length > 0)
+  assert.ok(diff.every((d) => d.path === 'state.fillStyle'))
+})